@@ -2,7 +2,7 @@ window.openapi = {
   "openapi": "3.0.0",
   "info": {
     "title": "TarkovTracker API (Fork)",
-    "description": "Player's progress, objectives, level, reputation and more.",
+    "description": "Player's progress, objectives, level, reputation and more. The same routes are served under /api/v3, where every error is returned as an ErrorEnvelope.",
     "version": "2.0",
     "contact": {
       "name": "TarkovTracker GitHub",
@@ -31,17 +31,171 @@ window.openapi = {
     {
       "name": "Progress",
       "description": "Operations related to player and team progress"
+    },
+    {
+      "name": "Team",
+      "description": "Operations related to the player's team"
+    },
+    {
+      "name": "Items",
+      "description": "Item data from tarkov.dev"
+    },
+    {
+      "name": "Public",
+      "description": "Progress players have chosen to share publicly; no token required"
     }
   ],
   "components": {
-    "securitySchemes": {
-      "bearerAuth": {
-        "type": "http",
-        "scheme": "bearer",
-        "bearerFormat": "JWT"
-      }
-    },
     "schemas": {
+      "PlayerLevel": {
+        "type": "integer",
+        "description": "Player's level",
+        "minimum": 1
+      },
+      "ProgressCursor": {
+        "type": "integer",
+        "description": "Cursor in milliseconds since the epoch, as returned in `meta.cursor`",
+        "minimum": 0
+      },
+      "TaskState": {
+        "type": "string",
+        "description": "State of a task",
+        "enum": [
+          "uncompleted",
+          "completed",
+          "failed"
+        ]
+      },
+      "CompletionState": {
+        "type": "string",
+        "description": "State of a task objective or hideout module",
+        "enum": [
+          "completed",
+          "uncompleted"
+        ]
+      },
+      "TaskStateUpdate": {
+        "type": "object",
+        "required": [
+          "state"
+        ],
+        "properties": {
+          "state": {
+            "$ref": "#/components/schemas/TaskState"
+          }
+        }
+      },
+      "MultipleTasksUpdate": {
+        "type": "object",
+        "description": "Object where keys are task IDs and values are the new state of each task",
+        "minProperties": 1,
+        "additionalProperties": {
+          "$ref": "#/components/schemas/TaskState"
+        },
+        "example": {
+          "task1": "completed",
+          "task5": "failed"
+        }
+      },
+      "TaskObjectiveUpdate": {
+        "type": "object",
+        "description": "The objective properties to update. Provide at least one.",
+        "minProperties": 1,
+        "properties": {
+          "state": {
+            "type": "string",
+            "description": "The new state of the task objective",
+            "enum": [
+              "completed",
+              "uncompleted"
+            ],
+            "nullable": true
+          },
+          "count": {
+            "type": "integer",
+            "description": "The number of items or completions toward the objective's goal",
+            "minimum": 0,
+            "nullable": true
+          }
+        }
+      },
+      "HideoutModuleUpdate": {
+        "type": "object",
+        "required": [
+          "state"
+        ],
+        "properties": {
+          "state": {
+            "$ref": "#/components/schemas/CompletionState"
+          }
+        }
+      },
+      "HideoutPartUpdate": {
+        "type": "object",
+        "description": "The hideout part properties to update. Provide at least one.",
+        "minProperties": 1,
+        "properties": {
+          "count": {
+            "type": "integer",
+            "description": "The number of items collected toward the requirement",
+            "minimum": 0
+          },
+          "complete": {
+            "type": "boolean",
+            "description": "Whether the item requirement has been fulfilled"
+          }
+        }
+      },
+      "ProgressBatch": {
+        "type": "object",
+        "required": [
+          "operations"
+        ],
+        "properties": {
+          "operations": {
+            "type": "array",
+            "minItems": 1,
+            "maxItems": 500,
+            "items": {
+              "type": "object",
+              "required": [
+                "type"
+              ],
+              "properties": {
+                "type": {
+                  "type": "string",
+                  "enum": [
+                    "task",
+                    "objective",
+                    "hideoutModule",
+                    "hideoutPart",
+                    "level",
+                    "faction",
+                    "gameEdition",
+                    "displayName"
+                  ]
+                },
+                "id": {
+                  "type": "string",
+                  "description": "Task, objective, hideout module or hideout part ID. Required for those operation types."
+                },
+                "state": {
+                  "type": "string",
+                  "description": "'completed', 'uncompleted' or (tasks only) 'failed'"
+                },
+                "count": {
+                  "type": "integer",
+                  "minimum": 0,
+                  "description": "Objective or hideout part count"
+                },
+                "value": {
+                  "description": "New value for level (integer >= 1), faction ('USEC' or 'BEAR'), gameEdition (integer 1-5) or displayName (string or null)"
+                }
+              }
+            }
+          }
+        }
+      },
       "Token": {
         "title": "Token",
         "description": "User's token data.",
@@ -53,13 +207,48 @@ window.openapi = {
           },
           "permissions": {
             "type": "array",
-            "description": "GP == Get Progression, TP == Team Progression, WP == Write Progression",
+            "description": "GP == Get Progression, TP == Team Progression, WP == Write Progression (all of WT, WH and WL), WT == Write Tasks, WH == Write Hideout, WL == Write Level and Profile, TM == Team Metadata, RI == Read Items",
             "items": {
               "type": "string"
             }
           }
         }
       },
+      "Team": {
+        "title": "Team",
+        "description": "Metadata of the player's team.",
+        "type": "object",
+        "properties": {
+          "id": {
+            "type": "string"
+          },
+          "owner": {
+            "type": "string",
+            "description": "User ID of the team owner"
+          },
+          "maximumMembers": {
+            "type": "integer"
+          },
+          "createdAt": {
+            "type": "integer",
+            "description": "Milliseconds since the epoch"
+          },
+          "members": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "properties": {
+                "id": {
+                  "type": "string"
+                },
+                "displayName": {
+                  "type": "string"
+                }
+              }
+            }
+          }
+        }
+      },
       "TeamProgress": {
         "title": "TeamProgress",
         "description": "Array of team member's progress data.",
@@ -123,6 +312,54 @@ window.openapi = {
           }
         }
       },
+      "PublicProfile": {
+        "title": "PublicProfile",
+        "description": "Progress shared through a share link. Fields the player has chosen to hide are omitted; with \"tasks only\" sharing, only task and objective progress is included.",
+        "type": "object",
+        "properties": {
+          "shareId": {
+            "type": "string",
+            "description": "ID of the share link"
+          },
+          "displayName": {
+            "type": "string",
+            "description": "Player's TarkovTracker display name, unless hidden or never set"
+          },
+          "playerLevel": {
+            "type": "integer"
+          },
+          "gameEdition": {
+            "type": "integer"
+          },
+          "pmcFaction": {
+            "type": "string"
+          },
+          "tasksProgress": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/TaskProgress"
+            }
+          },
+          "taskObjectivesProgress": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/TaskObjectiveProgress"
+            }
+          },
+          "hideoutModulesProgress": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/HideoutModulesProgress"
+            }
+          },
+          "hideoutPartsProgress": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/HideoutPartsProgress"
+            }
+          }
+        }
+      },
       "TaskProgress": {
         "title": "TaskProgress",
         "description": "Player's progress of a given task. The key is the UUID correlating to the task ID available via the tarkov.dev API",
@@ -143,6 +380,10 @@ window.openapi = {
           "invalid": {
             "type": "boolean",
             "description": "True if a given quest is no longer accessible, but not necessarily failed (eg. wrong faction, part of a quest chain that was not chosen by previous completions)"
+          },
+          "timestamp": {
+            "type": "integer",
+            "description": "Time of the last change in milliseconds since the epoch. Only returned by /progress/changes"
           }
         }
       },
@@ -158,6 +399,10 @@ window.openapi = {
           "complete": {
             "type": "boolean",
             "description": "True if a given hideout module has been installed"
+          },
+          "timestamp": {
+            "type": "integer",
+            "description": "Time of the last change in milliseconds since the epoch. Only returned by /progress/changes"
           }
         }
       },
@@ -174,49 +419,824 @@ window.openapi = {
             "type": "integer",
             "description": "Number of items collected for a given objective (if applicable)"
           },
-          "complete": {
-            "type": "boolean",
-            "description": "True if a given objective has been completed"
+          "complete": {
+            "type": "boolean",
+            "description": "True if a given objective has been completed"
+          },
+          "invalid": {
+            "type": "boolean",
+            "description": "True if a given objective is no longer accessible, but not necessarily failed (eg. wrong faction, part of a quest chain that was not chosen by previous completions)"
+          },
+          "timestamp": {
+            "type": "integer",
+            "description": "Time of the last change in milliseconds since the epoch. Only returned by /progress/changes"
+          }
+        }
+      },
+      "HideoutPartsProgress": {
+        "title": "HideoutPartsProgress",
+        "description": "Player's progress on items needed for hideout module upgrades.",
+        "type": "object",
+        "properties": {
+          "complete": {
+            "type": "boolean",
+            "description": "True if a given hideout part objective has been completed"
+          },
+          "count": {
+            "type": "integer",
+            "description": "Number of items collected for a given hideout part objective"
+          },
+          "id": {
+            "type": "string",
+            "description": "UUID correlating to individual hideout station level item requirements' ID available via the tarkov.dev API"
+          },
+          "timestamp": {
+            "type": "integer",
+            "description": "Time of the last change in milliseconds since the epoch. Only returned by /progress/changes"
+          }
+        }
+      },
+      "ProgressBatchResult": {
+        "title": "ProgressBatchResult",
+        "description": "Outcome of a PATCH /progress batch, with one result per operation in request order.",
+        "type": "object",
+        "properties": {
+          "message": {
+            "type": "string"
+          },
+          "error": {
+            "type": "string"
+          },
+          "results": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "properties": {
+                "index": {
+                  "type": "integer",
+                  "description": "Position of the operation in the request"
+                },
+                "type": {
+                  "type": "string",
+                  "description": "Operation type"
+                },
+                "id": {
+                  "type": "string",
+                  "description": "ID the operation targeted, if any"
+                },
+                "status": {
+                  "type": "string",
+                  "enum": [
+                    "applied",
+                    "invalid",
+                    "skipped"
+                  ],
+                  "description": "skipped means the operation was valid but not applied because another operation in the batch was invalid"
+                },
+                "error": {
+                  "type": "string",
+                  "description": "Why the operation is invalid"
+                }
+              }
+            }
+          }
+        }
+      },
+      "NeededItem": {
+        "title": "NeededItem",
+        "description": "An item still needed for tasks or the hideout, with every need it is counted towards.",
+        "type": "object",
+        "properties": {
+          "itemId": {
+            "type": "string",
+            "description": "Item ID from the tarkov.dev API"
+          },
+          "name": {
+            "type": "string"
+          },
+          "shortName": {
+            "type": "string"
+          },
+          "foundInRaid": {
+            "$ref": "#/components/schemas/NeededItemCount"
+          },
+          "notFoundInRaid": {
+            "$ref": "#/components/schemas/NeededItemCount"
+          },
+          "sources": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "properties": {
+                "type": {
+                  "type": "string",
+                  "enum": [
+                    "task",
+                    "hideout"
+                  ]
+                },
+                "id": {
+                  "type": "string",
+                  "description": "Task objective ID, or hideout item requirement (part) ID"
+                },
+                "taskId": {
+                  "type": "string"
+                },
+                "objectiveType": {
+                  "type": "string",
+                  "enum": [
+                    "giveItem"
+                  ],
+                  "description": "Type of the task objective. Only item hand-ins are counted."
+                },
+                "stationId": {
+                  "type": "string"
+                },
+                "moduleId": {
+                  "type": "string",
+                  "description": "ID of the hideout station level"
+                },
+                "level": {
+                  "type": "integer"
+                },
+                "foundInRaid": {
+                  "type": "boolean"
+                },
+                "needed": {
+                  "type": "integer"
+                },
+                "collected": {
+                  "type": "integer"
+                }
+              }
+            }
+          }
+        }
+      },
+      "TeamNeededItem": {
+        "title": "TeamNeededItem",
+        "description": "An item still needed by at least one visible team member.",
+        "type": "object",
+        "properties": {
+          "itemId": {
+            "type": "string",
+            "description": "Item ID from the tarkov.dev API"
+          },
+          "name": {
+            "type": "string"
+          },
+          "shortName": {
+            "type": "string"
+          },
+          "foundInRaid": {
+            "$ref": "#/components/schemas/NeededItemCount"
+          },
+          "notFoundInRaid": {
+            "$ref": "#/components/schemas/NeededItemCount"
+          },
+          "members": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "properties": {
+                "userId": {
+                  "type": "string"
+                },
+                "remaining": {
+                  "type": "integer",
+                  "description": "How many more this member needs, found in raid or not"
+                },
+                "foundInRaid": {
+                  "$ref": "#/components/schemas/NeededItemCount"
+                },
+                "notFoundInRaid": {
+                  "$ref": "#/components/schemas/NeededItemCount"
+                },
+                "sources": {
+                  "type": "array",
+                  "description": "Same as the sources of NeededItem",
+                  "items": {
+                    "type": "object"
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      "NeededItemCount": {
+        "title": "NeededItemCount",
+        "type": "object",
+        "properties": {
+          "needed": {
+            "type": "integer",
+            "description": "Total count required across the sources"
+          },
+          "collected": {
+            "type": "integer",
+            "description": "How many of them the player has already marked as collected"
+          }
+        }
+      },
+      "TaskAvailability": {
+        "title": "TaskAvailability",
+        "description": "Which tasks a player can start, has completed, or is blocked from.",
+        "type": "object",
+        "properties": {
+          "userId": {
+            "type": "string"
+          },
+          "available": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            },
+            "description": "IDs of tasks that are unlocked and not yet complete"
+          },
+          "completed": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            },
+            "description": "IDs of completed tasks, including failed ones"
+          },
+          "locked": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "properties": {
+                "id": {
+                  "type": "string"
+                },
+                "reasons": {
+                  "type": "array",
+                  "items": {
+                    "type": "object",
+                    "properties": {
+                      "type": {
+                        "type": "string",
+                        "enum": [
+                          "failedRequirement",
+                          "playerLevel",
+                          "traderLevel",
+                          "prerequisite",
+                          "faction"
+                        ]
+                      },
+                      "taskId": {
+                        "type": "string",
+                        "description": "The failed task (failedRequirement) or the incomplete prerequisite (prerequisite)"
+                      },
+                      "traderId": {
+                        "type": "string"
+                      },
+                      "required": {
+                        "oneOf": [
+                          {
+                            "type": "integer"
+                          },
+                          {
+                            "type": "string"
+                          }
+                        ],
+                        "description": "Level or faction the task requires"
+                      },
+                      "current": {
+                        "oneOf": [
+                          {
+                            "type": "integer"
+                          },
+                          {
+                            "type": "string"
+                          }
+                        ],
+                        "description": "The player's current level or faction"
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      "ValidationError": {
+        "title": "ValidationError",
+        "description": "Returned when the path parameters, query or body do not match the schemas in this document. Every problem found is listed, not just the first.",
+        "type": "object",
+        "properties": {
+          "error": {
+            "type": "string",
+            "example": "Request validation failed."
+          },
+          "violations": {
+            "type": "array",
+            "items": {
+              "type": "object",
+              "properties": {
+                "location": {
+                  "type": "string",
+                  "enum": [
+                    "params",
+                    "query",
+                    "body"
+                  ]
+                },
+                "path": {
+                  "type": "string",
+                  "description": "Dotted path to the offending value, e.g. operations[2].state"
+                },
+                "message": {
+                  "type": "string"
+                }
+              }
+            }
+          }
+        }
+      },
+      "ErrorEnvelope": {
+        "title": "ErrorEnvelope",
+        "description": "Error body returned by every /api/v3 route in place of the shapes documented here for /api/v2. The fields of a v2 error other than `error` are moved into `details`, and a v2 `code` (such as token-expired) becomes `details.reason`. A valid token that lacks a required permission gets a 403 with code permission-denied instead of the 401 documented for v2.",
+        "type": "object",
+        "required": [
+          "code",
+          "message"
+        ],
+        "properties": {
+          "code": {
+            "type": "string",
+            "description": "Firebase HttpsError code; the HTTP status always matches it",
+            "enum": [
+              "invalid-argument",
+              "failed-precondition",
+              "out-of-range",
+              "unauthenticated",
+              "permission-denied",
+              "not-found",
+              "already-exists",
+              "aborted",
+              "resource-exhausted",
+              "cancelled",
+              "internal",
+              "unavailable",
+              "deadline-exceeded",
+              "unknown",
+              "data-loss"
+            ],
+            "example": "unauthenticated"
+          },
+          "message": {
+            "type": "string",
+            "example": "Token has expired."
+          },
+          "details": {
+            "type": "object",
+            "example": {
+              "reason": "token-expired"
+            }
+          }
+        }
+      }
+    },
+    "securitySchemes": {
+      "bearerAuth": {
+        "type": "http",
+        "scheme": "bearer",
+        "bearerFormat": "JWT",
+        "description": "API token created in the TarkovTracker settings. Requests are rate limited per token and per account; every response carries X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset headers, and requests over the limit receive a 429 with a Retry-After header. Expired tokens are rejected with a 401 and code \"token-expired\"."
+      }
+    },
+    "responses": {
+      "ValidationError": {
+        "description": "The request does not match the documented schema.",
+        "content": {
+          "application/json": {
+            "schema": {
+              "$ref": "#/components/schemas/ValidationError"
+            }
+          }
+        }
+      }
+    }
+  },
+  "security": [
+    {
+      "bearerAuth": []
+    }
+  ],
+  "paths": {
+    "/items/{itemId}": {
+      "get": {
+        "summary": "Returns item data, including prices, as last fetched from tarkov.dev",
+        "tags": [
+          "Items"
+        ],
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "parameters": [
+          {
+            "name": "itemId",
+            "in": "path",
+            "description": "Item ID as used by the tarkov.dev API",
+            "required": true,
+            "schema": {
+              "type": "string"
+            }
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Item retrieved successfully.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "object",
+                  "properties": {
+                    "data": {
+                      "type": "object",
+                      "description": "The item as returned by the tarkov.dev API"
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "400": {
+            "description": "The item ID cannot be a Firestore document ID."
+          },
+          "401": {
+            "description": "Unauthorized. Invalid token or missing 'RI' permission."
+          },
+          "404": {
+            "description": "Item not found."
+          },
+          "500": {
+            "description": "Internal server error."
+          }
+        }
+      }
+    },
+    "/progress": {
+      "get": {
+        "summary": "Returns progress data of the player",
+        "tags": [
+          "Progress"
+        ],
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Player progress retrieved successfully.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "object",
+                  "properties": {
+                    "data": {
+                      "$ref": "#/components/schemas/Progress"
+                    },
+                    "meta": {
+                      "type": "object",
+                      "properties": {
+                        "self": {
+                          "type": "string",
+                          "description": "The user ID of the requester."
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "401": {
+            "description": "Unauthorized. Invalid token or missing 'GP' permission."
+          },
+          "500": {
+            "description": "Internal server error."
+          }
+        }
+      },
+      "patch": {
+        "summary": "Apply a batch of mixed progress operations atomically.",
+        "tags": [
+          "Progress"
+        ],
+        "description": "Applies an ordered list of operations in a single transaction. Either every operation is applied or none is: if any operation is invalid the request is rejected with a 400 and nothing is written. Operations are applied in order, so a later operation wins where two touch the same field. Task and hideout module operations have the same side effects as their single-item endpoints.",
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "requestBody": {
+          "required": true,
+          "content": {
+            "application/json": {
+              "schema": {
+                "$ref": "#/components/schemas/ProgressBatch"
+              },
+              "example": {
+                "operations": [
+                  {
+                    "type": "task",
+                    "id": "5936d90786f7742b1420ba5b",
+                    "state": "completed"
+                  },
+                  {
+                    "type": "objective",
+                    "id": "5968929e86f7740d121082d3",
+                    "count": 3
+                  },
+                  {
+                    "type": "level",
+                    "value": 25
+                  }
+                ]
+              }
+            }
+          }
+        },
+        "responses": {
+          "200": {
+            "description": "All operations were applied.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/ProgressBatchResult"
+                }
+              }
+            }
+          },
+          "400": {
+            "description": "The body does not match the ProgressBatch schema (see ValidationError), or at least one operation is invalid. Nothing was applied; `results` lists the error for each invalid operation.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/ProgressBatchResult"
+                }
+              }
+            }
+          },
+          "401": {
+            "description": "Unauthorized to update progress. Every operation needs its own write scope ('WT' for task and objective, 'WH' for hideout, 'WL' for level, faction, game edition and display name) or 'WP'; missingPermissions lists the scopes lacking."
+          },
+          "404": {
+            "description": "The user has no progress document yet. Nothing was applied."
+          },
+          "500": {
+            "description": "Internal server error. Nothing was applied."
+          }
+        }
+      }
+    },
+    "/progress/changes": {
+      "get": {
+        "summary": "Returns progress entries changed since a cursor",
+        "tags": [
+          "Progress"
+        ],
+        "description": "Returns only the task, objective, hideout module and hideout part entries modified after `since`, the IDs of entries removed since then, and a cursor to pass on the next call. Level, edition, faction and display name are always included. When the progress was replaced after `since` (a wipe reset or snapshot restore), `meta.reset` is true and every entry is returned; clients must then discard their local copy. The same happens for cursors older than 30 days, since removals are only tracked that long. Derived state (edition stash levels, invalidated tasks) is only available from `GET /progress`, so clients should fetch the full progress once and then poll this endpoint.",
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "parameters": [
+          {
+            "in": "query",
+            "name": "since",
+            "required": false,
+            "description": "Cursor in milliseconds since the epoch, as returned in `meta.cursor`. Omit or pass 0 to receive every entry.",
+            "schema": {
+              "$ref": "#/components/schemas/ProgressCursor"
+            }
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Changed progress entries retrieved successfully.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "object",
+                  "properties": {
+                    "data": {
+                      "$ref": "#/components/schemas/Progress"
+                    },
+                    "meta": {
+                      "type": "object",
+                      "properties": {
+                        "self": {
+                          "type": "string",
+                          "description": "The user ID of the requester."
+                        },
+                        "since": {
+                          "type": "integer",
+                          "description": "The cursor the changes were computed from."
+                        },
+                        "cursor": {
+                          "type": "integer",
+                          "description": "The cursor to pass as `since` on the next call. It is server time, so it does not depend on the clocks of the devices that wrote the progress."
+                        },
+                        "reset": {
+                          "type": "boolean",
+                          "description": "Whether the progress was replaced after `since`, or `since` is older than 30 days, in which case `data` holds every entry."
+                        },
+                        "removed": {
+                          "type": "object",
+                          "description": "IDs of the entries removed after `since`, per list.",
+                          "properties": {
+                            "tasksProgress": {
+                              "type": "array",
+                              "items": {
+                                "type": "string"
+                              }
+                            },
+                            "taskObjectivesProgress": {
+                              "type": "array",
+                              "items": {
+                                "type": "string"
+                              }
+                            },
+                            "hideoutModulesProgress": {
+                              "type": "array",
+                              "items": {
+                                "type": "string"
+                              }
+                            },
+                            "hideoutPartsProgress": {
+                              "type": "array",
+                              "items": {
+                                "type": "string"
+                              }
+                            }
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "400": {
+            "$ref": "#/components/responses/ValidationError"
+          },
+          "401": {
+            "description": "Unauthorized. Invalid token or missing 'GP' permission."
+          },
+          "500": {
+            "description": "Internal server error."
+          }
+        }
+      }
+    },
+    "/team/progress": {
+      "get": {
+        "summary": "Returns progress data of all members of the team",
+        "tags": [
+          "Progress"
+        ],
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Team progress retrieved successfully.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "$ref": "#/components/schemas/TeamProgress"
+                }
+              }
+            }
+          },
+          "401": {
+            "description": "Unauthorized. Invalid token or missing 'TP' permission."
+          },
+          "500": {
+            "description": "Internal server error."
+          }
+        }
+      }
+    },
+    "/progress/tasks/available": {
+      "get": {
+        "summary": "Returns which tasks the player can currently start",
+        "tags": [
+          "Progress"
+        ],
+        "description": "Applies the same rules as the TarkovTracker task list: a task is available when it is not complete and its failed requirements, minimum player level, trader levels, prerequisite tasks and faction allow it. Every reason a locked task is blocked is listed.",
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Task availability retrieved successfully.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "object",
+                  "properties": {
+                    "data": {
+                      "$ref": "#/components/schemas/TaskAvailability"
+                    },
+                    "meta": {
+                      "type": "object",
+                      "properties": {
+                        "self": {
+                          "type": "string",
+                          "description": "The user ID of the requester."
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "401": {
+            "description": "Unauthorized. Invalid token or missing 'GP' permission."
           },
-          "invalid": {
-            "type": "boolean",
-            "description": "True if a given objective is no longer accessible, but not necessarily failed (eg. wrong faction, part of a quest chain that was not chosen by previous completions)"
+          "500": {
+            "description": "Internal server error."
           }
         }
-      },
-      "HideoutPartsProgress": {
-        "title": "HideoutPartsProgress",
-        "description": "Player's progress on items needed for hideout module upgrades.",
-        "type": "object",
-        "properties": {
-          "complete": {
-            "type": "boolean",
-            "description": "True if a given hideout part objective has been completed"
+      }
+    },
+    "/team/tasks/available": {
+      "get": {
+        "summary": "Returns which tasks each team member can currently start",
+        "tags": [
+          "Progress"
+        ],
+        "description": "Same as `GET /progress/tasks/available`, for every member of the team. Members without a progress document are left out. Teammates the requester has hidden are still returned and listed in `meta.hiddenTeammates`, as in `GET /team/progress`.",
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Team task availability retrieved successfully.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "object",
+                  "properties": {
+                    "data": {
+                      "type": "array",
+                      "items": {
+                        "$ref": "#/components/schemas/TaskAvailability"
+                      }
+                    },
+                    "meta": {
+                      "type": "object",
+                      "properties": {
+                        "self": {
+                          "type": "string",
+                          "description": "The user ID of the requester."
+                        },
+                        "hiddenTeammates": {
+                          "type": "array",
+                          "items": {
+                            "type": "string"
+                          },
+                          "description": "User IDs of teammates hidden by the requester."
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
           },
-          "count": {
-            "type": "integer",
-            "description": "Number of items collected for a given hideout part objective"
+          "401": {
+            "description": "Unauthorized. Invalid token or missing 'TP' permission."
           },
-          "id": {
-            "type": "string",
-            "description": "UUID correlating to individual hideout station level item requirements' ID available via the tarkov.dev API"
+          "500": {
+            "description": "Internal server error."
           }
         }
       }
-    }
-  },
-  "security": [
-    {
-      "bearerAuth": []
-    }
-  ],
-  "paths": {
-    "/progress": {
+    },
+    "/progress/items/needed": {
       "get": {
-        "summary": "Returns progress data of the player",
+        "summary": "Returns the items the player still needs to hand in",
         "tags": [
           "Progress"
         ],
+        "description": "Aggregates the item hand-ins of unfinished tasks ('giveItem' objectives) and unbuilt hideout station levels, as on the TarkovTracker Needed Items page. Task objectives that only use an item ('mark', 'plantItem', 'buildWeapon') are not counted, although the site lists them among a task's needed objectives. Tasks of the other faction and hideout levels included with the player's game edition are left out. Counts are split between found in raid and non found in raid needs.",
         "security": [
           {
             "bearerAuth": []
@@ -224,14 +1244,17 @@ window.openapi = {
         ],
         "responses": {
           "200": {
-            "description": "Player progress retrieved successfully.",
+            "description": "Needed items retrieved successfully.",
             "content": {
               "application/json": {
                 "schema": {
                   "type": "object",
                   "properties": {
                     "data": {
-                      "$ref": "#/components/schemas/Progress"
+                      "type": "array",
+                      "items": {
+                        "$ref": "#/components/schemas/NeededItem"
+                      }
                     },
                     "meta": {
                       "type": "object",
@@ -256,12 +1279,13 @@ window.openapi = {
         }
       }
     },
-    "/team/progress": {
+    "/team/items/needed": {
       "get": {
-        "summary": "Returns progress data of all members of the team",
+        "summary": "Returns the items still needed by the team, per member",
         "tags": [
           "Progress"
         ],
+        "description": "Combines `GET /progress/items/needed` for the requester and every teammate they have not hidden. The requester's Needed Items preferences apply to teammates: hiding teammates' non found in raid items leaves out their non found in raid task hand-ins, hiding teammates' hideout items leaves out their hideout needs, and hiding all teammates' items leaves out both.",
         "security": [
           {
             "bearerAuth": []
@@ -269,11 +1293,35 @@ window.openapi = {
         ],
         "responses": {
           "200": {
-            "description": "Team progress retrieved successfully.",
+            "description": "Team needed items retrieved successfully.",
             "content": {
               "application/json": {
                 "schema": {
-                  "$ref": "#/components/schemas/TeamProgress"
+                  "type": "object",
+                  "properties": {
+                    "data": {
+                      "type": "array",
+                      "items": {
+                        "$ref": "#/components/schemas/TeamNeededItem"
+                      }
+                    },
+                    "meta": {
+                      "type": "object",
+                      "properties": {
+                        "self": {
+                          "type": "string",
+                          "description": "The user ID of the requester."
+                        },
+                        "hiddenTeammates": {
+                          "type": "array",
+                          "items": {
+                            "type": "string"
+                          },
+                          "description": "User IDs of teammates hidden by the requester, whose needs are not included."
+                        }
+                      }
+                    }
+                  }
                 }
               }
             }
@@ -305,8 +1353,7 @@ window.openapi = {
             "description": "Player's new level",
             "required": true,
             "schema": {
-              "type": "integer",
-              "minimum": 1
+              "$ref": "#/components/schemas/PlayerLevel"
             }
           }
         ],
@@ -315,10 +1362,10 @@ window.openapi = {
             "description": "Player's level was updated successfully"
           },
           "400": {
-            "description": "Invalid level value provided."
+            "$ref": "#/components/responses/ValidationError"
           },
           "401": {
-            "description": "Unauthorized. Invalid token or missing 'WP' permission."
+            "description": "Unauthorized. Invalid token or missing 'WL' or 'WP' permission."
           },
           "500": {
             "description": "Internal server error."
@@ -355,21 +1402,7 @@ window.openapi = {
           "content": {
             "application/json": {
               "schema": {
-                "type": "object",
-                "required": [
-                  "state"
-                ],
-                "properties": {
-                  "state": {
-                    "type": "string",
-                    "description": "The new state of the task.",
-                    "enum": [
-                      "uncompleted",
-                      "completed",
-                      "failed"
-                    ]
-                  }
-                }
+                "$ref": "#/components/schemas/TaskStateUpdate"
               }
             }
           }
@@ -379,10 +1412,10 @@ window.openapi = {
             "description": "The task was updated successfully."
           },
           "400": {
-            "description": "Invalid request parameters (e.g., bad taskId or state)."
+            "$ref": "#/components/responses/ValidationError"
           },
           "401": {
-            "description": "Unauthorized to update progress (missing 'WP' permission)."
+            "description": "Unauthorized to update progress (missing 'WT' or 'WP' permission)."
           },
           "500": {
             "description": "Internal server error."
@@ -406,21 +1439,7 @@ window.openapi = {
           "content": {
             "application/json": {
               "schema": {
-                "type": "object",
-                "description": "Object where keys are task IDs and values are the new status (0-3)",
-                "additionalProperties": {
-                  "type": "integer",
-                  "enum": [
-                    0,
-                    1,
-                    2,
-                    3
-                  ]
-                },
-                "example": {
-                  "task1": 2,
-                  "task5": 1
-                }
+                "$ref": "#/components/schemas/MultipleTasksUpdate"
               }
             }
           }
@@ -430,10 +1449,10 @@ window.openapi = {
             "description": "Tasks updated successfully."
           },
           "400": {
-            "description": "Invalid request body format or invalid status values."
+            "$ref": "#/components/responses/ValidationError"
           },
           "401": {
-            "description": "Unauthorized. Invalid token or missing 'WP' permission."
+            "description": "Unauthorized. Invalid token or missing 'WT' or 'WP' permission."
           },
           "500": {
             "description": "Internal server error during batch update."
@@ -470,24 +1489,7 @@ window.openapi = {
           "content": {
             "application/json": {
               "schema": {
-                "type": "object",
-                "properties": {
-                  "state": {
-                    "type": "string",
-                    "description": "The new state of the task objective.",
-                    "enum": [
-                      "completed",
-                      "uncompleted"
-                    ],
-                    "nullable": true
-                  },
-                  "count": {
-                    "type": "integer",
-                    "description": "The number of items or completions toward the objective's goal.",
-                    "minimum": 0,
-                    "nullable": true
-                  }
-                }
+                "$ref": "#/components/schemas/TaskObjectiveUpdate"
               }
             }
           }
@@ -497,10 +1499,194 @@ window.openapi = {
             "description": "The objective was updated successfully."
           },
           "400": {
-            "description": "Invalid request parameters (e.g., bad objectiveId, state, or count)."
+            "$ref": "#/components/responses/ValidationError"
+          },
+          "401": {
+            "description": "Unauthorized to update progress (missing 'WT' or 'WP' permission)."
+          },
+          "500": {
+            "description": "Internal server error."
+          }
+        }
+      }
+    },
+    "/progress/hideout/module/{moduleId}": {
+      "post": {
+        "summary": "Mark a hideout module as built or not built.",
+        "tags": [
+          "Progress"
+        ],
+        "description": "Sets the state of a hideout module (a hideout station level). Building a module also marks all of its item requirements as complete, and un-building it marks them as uncompleted, the same way the TarkovTracker web app does.",
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "parameters": [
+          {
+            "in": "path",
+            "name": "moduleId",
+            "required": true,
+            "description": "The ID of the hideout station level from the tarkov.dev API.",
+            "schema": {
+              "type": "string"
+            }
+          }
+        ],
+        "requestBody": {
+          "required": true,
+          "description": "The new state for the hideout module.",
+          "content": {
+            "application/json": {
+              "schema": {
+                "$ref": "#/components/schemas/HideoutModuleUpdate"
+              }
+            }
+          }
+        },
+        "responses": {
+          "200": {
+            "description": "The hideout module was updated successfully."
+          },
+          "400": {
+            "$ref": "#/components/responses/ValidationError"
+          },
+          "401": {
+            "description": "Unauthorized to update progress (missing 'WH' or 'WP' permission)."
+          },
+          "500": {
+            "description": "Internal server error."
+          }
+        }
+      }
+    },
+    "/progress/hideout/part/{partId}": {
+      "post": {
+        "summary": "Update progress of a hideout module item requirement.",
+        "tags": [
+          "Progress"
+        ],
+        "description": "Update the collected count and/or completion of an item required to build a hideout module.",
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "parameters": [
+          {
+            "in": "path",
+            "name": "partId",
+            "required": true,
+            "description": "The ID of the hideout station level item requirement from the tarkov.dev API.",
+            "schema": {
+              "type": "string"
+            }
+          }
+        ],
+        "requestBody": {
+          "required": true,
+          "description": "The hideout part properties to update. Provide at least one.",
+          "content": {
+            "application/json": {
+              "schema": {
+                "$ref": "#/components/schemas/HideoutPartUpdate"
+              }
+            }
+          }
+        },
+        "responses": {
+          "200": {
+            "description": "The hideout part was updated successfully."
+          },
+          "400": {
+            "$ref": "#/components/responses/ValidationError"
           },
           "401": {
-            "description": "Unauthorized to update progress (missing 'WP' permission)."
+            "description": "Unauthorized to update progress (missing 'WH' or 'WP' permission)."
+          },
+          "500": {
+            "description": "Internal server error."
+          }
+        }
+      }
+    },
+    "/public/profile/{shareId}": {
+      "get": {
+        "summary": "Returns the progress a player has shared through a share link",
+        "description": "Does not require a token. Fields the player has chosen to hide are omitted.",
+        "tags": [
+          "Public"
+        ],
+        "security": [],
+        "parameters": [
+          {
+            "name": "shareId",
+            "in": "path",
+            "description": "ID of the share link",
+            "required": true,
+            "schema": {
+              "type": "string"
+            }
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Shared progress retrieved successfully.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "object",
+                  "properties": {
+                    "data": {
+                      "$ref": "#/components/schemas/PublicProfile"
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "404": {
+            "description": "Share link not found or revoked."
+          },
+          "500": {
+            "description": "Internal server error."
+          }
+        }
+      }
+    },
+    "/team": {
+      "get": {
+        "summary": "Returns metadata of the player's team",
+        "description": "Team owner, size limit and members with their display names. Does not include any progress; use /team/progress for that.",
+        "tags": [
+          "Team"
+        ],
+        "security": [
+          {
+            "bearerAuth": []
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "Team metadata retrieved successfully.",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "object",
+                  "properties": {
+                    "data": {
+                      "$ref": "#/components/schemas/Team"
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "401": {
+            "description": "Unauthorized. Invalid token or missing 'TM' permission."
+          },
+          "404": {
+            "description": "The player is not in a team."
           },
           "500": {
             "description": "Internal server error."
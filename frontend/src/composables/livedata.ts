@@ -12,6 +12,7 @@ import {
   DocumentData,
   Firestore,
   FirestoreError,
+  Timestamp,
 } from 'firebase/firestore';
 import { defineStore, _GettersTree } from 'pinia';
 import { getters, actions, defaultState, UserActions } from '@/shared_state';
@@ -176,6 +177,18 @@ interface TeamState extends StateTree {
   owner?: string | null;
   password?: string | null;
   members?: string[];
+  admins?: string[];
+  maximumMembers?: number;
+  name?: string;
+  description?: string;
+  // Set by the functions whenever the team changes hands
+  ownershipChange?: {
+    from: string;
+    fromName?: string | null;
+    to: string;
+    reason: 'transferred' | 'owner-left';
+    changedAt?: Timestamp;
+  };
 }
 
 interface TeamGetters extends _GettersTree<TeamState> {
@@ -184,6 +197,7 @@ interface TeamGetters extends _GettersTree<TeamState> {
   teamPassword: (state: TeamState) => string | null;
   teamMembers: (state: TeamState) => string[];
   teammates: (state: TeamState) => string[];
+  memberRole: (state: TeamState) => (member: string) => 'owner' | 'admin' | 'member';
 }
 
 const useTeamStore = defineStore<string, TeamState, TeamGetters>('team', {
@@ -227,6 +241,13 @@ const useTeamStore = defineStore<string, TeamState, TeamGetters>('team', {
       console.log('[livedata][teammates getter] Returning:', JSON.parse(JSON.stringify(result)));
       return result;
     },
+    // Owners and admins can manage the team; only the owner can change roles
+    memberRole(state) {
+      return (member: string) => {
+        if (state?.owner === member) return 'owner';
+        return state?.admins?.includes(member) ? 'admin' : 'member';
+      };
+    },
   },
 });
 
@@ -38,6 +38,13 @@ const routes: RouteRecordRaw[] = [
         meta: { background: 'gas' },
         component: () => import('@/pages/TrackerSettings.vue'),
       },
+      {
+        // Read-only view of progress someone shared with a share link
+        name: 'share',
+        path: '/share/:shareId',
+        meta: {},
+        component: () => import('@/pages/SharedProfile.vue'),
+      },
       {
         path: '/:pathMatch(.*)*',
         name: 'not-found',
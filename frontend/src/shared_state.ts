@@ -175,6 +175,7 @@ export const actions: UserActions = {
     this.taskObjectives[objectiveId] = {
       ...(this.taskObjectives[objectiveId] || {}),
       count: count >= 0 ? count : 0,
+      timestamp: Date.now(),
     };
   },
   setHideoutPartCount(objectiveId, count) {
@@ -184,6 +185,7 @@ export const actions: UserActions = {
     this.hideoutParts[objectiveId] = {
       ...(this.hideoutParts[objectiveId] || {}),
       count: count >= 0 ? count : 0,
+      timestamp: Date.now(),
     };
   },
   setTaskComplete(taskId) {
@@ -217,7 +219,7 @@ export const actions: UserActions = {
       ...(this.taskCompletions[taskId] || {}),
       complete: false,
       failed: false,
-      // Consider whether to keep or remove timestamp
+      timestamp: Date.now(),
     };
   },
   setTaskObjectiveComplete(objectiveId) {
@@ -237,6 +239,7 @@ export const actions: UserActions = {
     this.taskObjectives[objectiveId] = {
       ...(this.taskObjectives[objectiveId] || {}),
       complete: false,
+      timestamp: Date.now(),
     };
   },
   toggleTaskObjectiveComplete(objectiveId) {
@@ -265,6 +268,7 @@ export const actions: UserActions = {
     this.hideoutParts[objectiveId] = {
       ...(this.hideoutParts[objectiveId] || {}),
       complete: false,
+      timestamp: Date.now(),
     };
   },
   toggleHideoutPartComplete(objectiveId) {
@@ -292,6 +296,7 @@ export const actions: UserActions = {
     this.hideoutModules[hideoutId] = {
       ...(this.hideoutModules[hideoutId] || {}),
       complete: false,
+      timestamp: Date.now(),
     };
   },
   toggleHideoutModuleComplete(hideoutId) {
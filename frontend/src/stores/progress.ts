@@ -112,6 +112,7 @@ export const useProgressStore = defineStore('progress', {
       }
       return faction;
     },
+    // Mirrored for the API in functions/src/progress/taskAvailability.ts; keep the two in sync
     unlockedTasks(
       this: ProgressState & ProgressGetters,
       _state: ProgressState
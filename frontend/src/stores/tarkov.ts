@@ -1,7 +1,8 @@
 import { defineStore } from 'pinia';
 import { watch } from 'vue';
-import { fireuser, firestore } from '@/plugins/firebase';
+import { fireuser, firestore, functions } from '@/plugins/firebase';
 import { doc, setDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
 import { getters, actions, defaultState, type UserState, type UserActions } from '@/shared_state';
 import { initializeStore, wasDataMigrated } from '@/plugins/store-initializer';
 import type { Pinia } from 'pinia';
@@ -41,6 +42,22 @@ export const useTarkovStore = defineStore('swapTarkov', {
         console.error('Error resetting online profile:', error);
       }
     },
+    // Archives the current progress under progress/{uid}/archives on the server and starts a
+    // new wipe. Unlike resetOnlineProfile, the game edition, faction and display name are kept.
+    async archiveAndResetProfile(label: string) {
+      if (!fireuser.uid) {
+        console.error('User not logged in. Cannot archive online profile.');
+        return;
+      }
+      const archiveFn = httpsCallable<{ label: string }, { wipeId: string; progress: UserState }>(
+        functions,
+        'archiveAndResetProgress'
+      );
+      const { data } = await archiveFn({ label });
+      // Replace rather than merge, so the emptied progress maps are not merged with the old ones
+      this.$patch((state) => Object.assign(state, data.progress));
+      return data.wipeId;
+    },
   },
   fireswap: [
     {
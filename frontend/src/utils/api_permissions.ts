@@ -5,6 +5,7 @@ interface Permission {
 interface Permissions {
   [key: string]: Permission;
 }
+// Mirrors PERMISSIONS in functions/src/auth/permissions.ts. WP grants all of WT, WH and WL.
 const availablePermissions: Permissions = {
   GP: {
     title: 'Get Progression',
@@ -18,9 +19,31 @@ const availablePermissions: Permissions = {
       "Allows access to read a virtual copy of your team's progress, " +
       'including display names, quest, and hideout progress',
   },
+  TM: {
+    title: 'Get Team Info',
+    description:
+      "Allows access to read your team's owner, size and member display names, " +
+      'but not their progress',
+  },
+  RI: {
+    title: 'Read Items',
+    description: 'Allows access to read item data such as prices',
+  },
   WP: {
     title: 'Write Progression',
-    description: 'Allows access to update your TarkovTracker progress data on your behalf',
+    description: 'Allows access to update all of your TarkovTracker progress data on your behalf',
+  },
+  WT: {
+    title: 'Write Tasks',
+    description: 'Allows access to update only your task and objective progress',
+  },
+  WH: {
+    title: 'Write Hideout',
+    description: 'Allows access to update only your hideout progress',
+  },
+  WL: {
+    title: 'Write Level and Profile',
+    description: 'Allows access to update only your level, faction, game edition and display name',
   },
 };
 export default availablePermissions;
@@ -0,0 +1,25 @@
+// Mirrors the sliding window counter kept by the API (functions/src/auth/rateLimit.ts) so
+// the settings page can show how much of a token's or account's rate limit is in use.
+// The API stores a request count per window, keyed by the window start.
+interface RateLimitCounts {
+  limit: number;
+  counts?: { [windowStart: string]: number };
+}
+interface RateLimitUsage {
+  used: number;
+  limit: number;
+}
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const rateLimitUsage = (
+  stored: RateLimitCounts | undefined | null,
+  now: number = Date.now()
+): RateLimitUsage | null => {
+  if (!stored?.limit) return null;
+  const windowStart = Math.floor(now / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS;
+  const count = stored.counts?.[windowStart] ?? 0;
+  const previousCount = stored.counts?.[windowStart - RATE_LIMIT_WINDOW_MS] ?? 0;
+  const previousWeight = (windowStart + RATE_LIMIT_WINDOW_MS - now) / RATE_LIMIT_WINDOW_MS;
+  const used = Math.min(stored.limit, Math.floor(previousCount * previousWeight) + count);
+  return { used, limit: stored.limit };
+};
+export default rateLimitUsage;
@@ -0,0 +1,10 @@
+// Progress changes a webhook can subscribe to; mirrors WEBHOOK_EVENT_TYPES in
+// functions/src/webhook/events.ts. Labels live under page.settings.card.webhooks.event.
+const webhookEvents: string[] = [
+  'task.completed',
+  'task.failed',
+  'objective.count',
+  'level.changed',
+  'hideout.module.built',
+];
+export default webhookEvents;
@@ -0,0 +1,7 @@
+import { HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+// Administrative callables (migrations, maintenance) require the `admin` custom claim
+export function requireAdmin(request: CallableRequest<unknown>): void {
+  if (request.auth?.token?.admin !== true) {
+    throw new HttpsError('permission-denied', 'Only administrators can run this operation.');
+  }
+}
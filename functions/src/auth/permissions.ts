@@ -0,0 +1,36 @@
+// Permission scopes a token can be granted. GP, TP and WP are the original scopes; the others
+// narrow access down to a single area, so integrations can be given only what they need.
+export const PERMISSIONS = [
+  'GP', // Read own progress
+  'TP', // Read team progress
+  'WP', // Write all progress
+  'WT', // Write task and objective progress
+  'WH', // Write hideout progress
+  'WL', // Write level and profile (faction, game edition, display name)
+  'TM', // Read team metadata
+  'RI', // Read item data
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+// WP predates the narrower write scopes and still grants all of them, so existing tokens
+// keep working unchanged
+const GRANTED_BY: Partial<Record<Permission, Permission[]>> = {
+  WT: ['WP'],
+  WH: ['WP'],
+  WL: ['WP'],
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return PERMISSIONS.includes(value as Permission);
+}
+
+export function hasPermission(
+  apiToken: { permissions?: string[] } | undefined,
+  scope: Permission
+): boolean {
+  const permissions = apiToken?.permissions ?? [];
+  return (
+    permissions.includes(scope) ||
+    (GRANTED_BY[scope] ?? []).some((granting) => permissions.includes(granting))
+  );
+}
@@ -0,0 +1,214 @@
+import functions from 'firebase-functions';
+import admin from 'firebase-admin';
+import { Response } from 'express';
+import { defineInt } from 'firebase-functions/params';
+import { Firestore, DocumentSnapshot, FieldValue } from 'firebase-admin/firestore';
+
+// Requests allowed per minute for a single token and across all of an owner's tokens.
+// A value of 0 or less disables that limit.
+const tokenLimitPerMinute = defineInt('API_RATE_LIMIT_TOKEN_PER_MINUTE', { default: 60 });
+const ownerLimitPerMinute = defineInt('API_RATE_LIMIT_OWNER_PER_MINUTE', { default: 120 });
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Sliding window counter state. The previous window's count is weighted by how much of it
+// still overlaps the sliding window, which approximates a true sliding log with two numbers.
+export interface RateLimitWindow {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+  limit: number;
+}
+// Stored as `rateLimit` on token/{tokenId} and on rateLimit/{ownerId}: a request count per
+// window, keyed by the window start. Counts are only ever incremented, so requests never
+// have to read and write the same document in a transaction.
+export interface RateLimitCounts {
+  limit: number;
+  counts: { [windowStart: string]: number };
+}
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // Milliseconds since the epoch when the current window ends
+  retryAfterSeconds: number;
+}
+
+// Applies one request to a window. Pure so it can be tested without Firestore.
+export function applySlidingWindow(
+  state: RateLimitWindow | undefined,
+  limit: number,
+  now: number,
+  windowMs: number = RATE_LIMIT_WINDOW_MS
+): { window: RateLimitWindow; result: RateLimitResult } {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  let count = 0;
+  let previousCount = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count;
+    previousCount = state.previousCount;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previousCount = state.count;
+  }
+  const resetAt = windowStart + windowMs;
+  const previousWeight = (resetAt - now) / windowMs;
+  const used = Math.floor(previousCount * previousWeight) + count;
+  if (used >= limit) {
+    // Wait until enough of the previous window has slid out, or for the next window
+    const retryAfterMs =
+      previousCount > 0 && count < limit
+        ? Math.ceil((previousWeight - (limit - count) / previousCount) * windowMs) + 1
+        : resetAt - now;
+    return {
+      window: { windowStart, count, previousCount, limit },
+      result: {
+        allowed: false,
+        limit,
+        remaining: 0,
+        resetAt,
+        retryAfterSeconds: Math.max(1, Math.ceil(Math.min(retryAfterMs, resetAt - now) / 1000)),
+      },
+    };
+  }
+  return {
+    window: { windowStart, count: count + 1, previousCount, limit },
+    result: {
+      allowed: true,
+      limit,
+      remaining: Math.max(0, limit - used - 1),
+      resetAt,
+      retryAfterSeconds: 0,
+    },
+  };
+}
+
+// The sliding window at `now` from the stored per-window counts
+export function windowFromCounts(
+  stored: RateLimitCounts | undefined,
+  limit: number,
+  now: number,
+  windowMs: number = RATE_LIMIT_WINDOW_MS
+): RateLimitWindow {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  return {
+    windowStart,
+    count: stored?.counts?.[windowStart] ?? 0,
+    previousCount: stored?.counts?.[windowStart - windowMs] ?? 0,
+    limit,
+  };
+}
+
+// Field updates that count one request in the current window and drop the counts of windows
+// that no longer overlap the sliding window
+function countUpdate(
+  stored: RateLimitCounts | undefined,
+  windowStart: number,
+  windowMs: number = RATE_LIMIT_WINDOW_MS
+): { [windowStart: string]: FieldValue } {
+  const update: { [windowStart: string]: FieldValue } = {
+    [windowStart]: admin.firestore.FieldValue.increment(1),
+  };
+  Object.keys(stored?.counts ?? {})
+    .filter((key) => Number(key) < windowStart - windowMs)
+    .forEach((key) => {
+      update[key] = admin.firestore.FieldValue.delete();
+    });
+  return update;
+}
+
+// Counts one request against the token and owner limits, and updates the token's lifetime
+// `calls` counter and `lastUsedAt`. Rejected requests are not counted. The token document is
+// the one verifyBearer already read, so only the owner document is read here, and the counts
+// are written with increments rather than in a transaction: concurrent requests of one owner
+// do not contend for a lock, at the cost of letting a burst overshoot a limit by the number of
+// requests in flight.
+// Returns the more restrictive of the two results, or null if no limit is configured.
+export async function consumeRateLimit(
+  db: Firestore,
+  tokenDoc: DocumentSnapshot,
+  ownerId: string
+): Promise<RateLimitResult | null> {
+  const tokenLimit = tokenLimitPerMinute.value();
+  const ownerLimit = ownerLimitPerMinute.value();
+  const ownerRef = db.collection('rateLimit').doc(ownerId);
+  const ownerDoc = ownerLimit > 0 ? await ownerRef.get() : null;
+  const tokenCounts: RateLimitCounts | undefined = tokenDoc.get('rateLimit');
+  const ownerCounts: RateLimitCounts | undefined = ownerDoc?.get('rateLimit');
+  const now = Date.now();
+  const results: RateLimitResult[] = [];
+  const windowStart = Math.floor(now / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS;
+  if (tokenLimit > 0) {
+    const { result } = applySlidingWindow(
+      windowFromCounts(tokenCounts, tokenLimit, now),
+      tokenLimit,
+      now
+    );
+    results.push(result);
+  }
+  if (ownerLimit > 0) {
+    const { result } = applySlidingWindow(
+      windowFromCounts(ownerCounts, ownerLimit, now),
+      ownerLimit,
+      now
+    );
+    results.push(result);
+  }
+  if (results.every((result) => result.allowed)) {
+    // update() rather than set() so a token revoked mid-request is not recreated
+    const tokenUpdate: { [field: string]: number | FieldValue } = {
+      calls: admin.firestore.FieldValue.increment(1),
+      lastUsedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+    if (tokenLimit > 0) {
+      tokenUpdate['rateLimit.limit'] = tokenLimit;
+      Object.entries(countUpdate(tokenCounts, windowStart)).forEach(([key, value]) => {
+        tokenUpdate[`rateLimit.counts.${key}`] = value;
+      });
+    }
+    const writes: Promise<unknown>[] = [tokenDoc.ref.update(tokenUpdate)];
+    if (ownerLimit > 0) {
+      writes.push(
+        ownerRef.set(
+          { rateLimit: { limit: ownerLimit, counts: countUpdate(ownerCounts, windowStart) } },
+          { merge: true }
+        )
+      );
+    }
+    await Promise.all(writes);
+  }
+  if (results.length === 0) return null;
+  // Report whichever limit is closest to (or furthest past) being exhausted
+  return results.reduce((tightest, result) => {
+    if (tightest.allowed !== result.allowed) return result.allowed ? tightest : result;
+    if (!result.allowed) {
+      return result.retryAfterSeconds > tightest.retryAfterSeconds ? result : tightest;
+    }
+    return result.remaining < tightest.remaining ? result : tightest;
+  });
+}
+
+export function setRateLimitHeaders(res: Response, result: RateLimitResult): void {
+  res.set('X-RateLimit-Limit', String(result.limit));
+  res.set('X-RateLimit-Remaining', String(result.remaining));
+  res.set('X-RateLimit-Reset', String(Math.ceil(result.resetAt / 1000)));
+  if (!result.allowed) {
+    res.set('Retry-After', String(result.retryAfterSeconds));
+  }
+}
+
+// Logs and lets the request through when the limiter itself fails, so a Firestore hiccup
+// does not take the whole API down
+export async function consumeRateLimitSafely(
+  db: Firestore,
+  tokenDoc: DocumentSnapshot,
+  ownerId: string
+): Promise<RateLimitResult | null> {
+  try {
+    return await consumeRateLimit(db, tokenDoc, ownerId);
+  } catch (error: unknown) {
+    functions.logger.error('Rate limit check failed, allowing request', {
+      error: error instanceof Error ? error.message : error,
+      owner: ownerId,
+    });
+    return null;
+  }
+}
@@ -2,6 +2,9 @@ import functions from 'firebase-functions';
 import admin from 'firebase-admin';
 import { Request, Response, NextFunction } from 'express';
 import { Firestore, DocumentReference, DocumentSnapshot } from 'firebase-admin/firestore';
+import { hashToken, isHashedTokenId } from '../token/tokenHash.js';
+import { migrateLegacyToken } from '../migrations/hashTokens.js';
+import { consumeRateLimitSafely, setRateLimitHeaders } from './rateLimit.js';
 
 // Define minimal interface for the token document data expected
 // Duplicated from index.ts for simplicity, consider shared types for larger projects
@@ -10,11 +13,14 @@ interface ApiTokenData {
   note: string;
   permissions: string[];
   calls?: number;
+  prefix?: string;
   createdAt?: admin.firestore.Timestamp;
+  expiresAt?: admin.firestore.Timestamp;
 }
 // Define interface for the apiToken added to the request
 interface ApiToken extends ApiTokenData {
-  token: string;
+  token: string; // The secret as presented by the caller
+  tokenId: string; // SHA-256 of the secret, the token's document ID
 }
 // Extend the Express Request interface to include apiToken
 interface AuthenticatedRequest extends Request {
@@ -40,36 +46,57 @@ const verifyBearer = async (
       return;
     }
     const authToken: string = parts[1];
+    // Tokens are stored under their hash; never log the secret itself
+    const tokenId = hashToken(authToken);
     const tokenRef: DocumentReference<ApiTokenData> = db
       .collection('token')
-      .doc(authToken) as DocumentReference<ApiTokenData>;
-    const tokenDoc: DocumentSnapshot<ApiTokenData> = await tokenRef.get();
+      .doc(tokenId) as DocumentReference<ApiTokenData>;
+    let tokenDoc: DocumentSnapshot<ApiTokenData> = await tokenRef.get();
+    // Tokens created before hashing are stored under the secret until migrated; move one over
+    // the first time it is used so existing integrations keep working
+    if (
+      !tokenDoc.exists &&
+      !isHashedTokenId(authToken) &&
+      (await migrateLegacyToken(db, authToken))
+    ) {
+      functions.logger.log('Migrated legacy token on first use', { tokenId });
+      tokenDoc = await tokenRef.get();
+    }
     if (tokenDoc.exists) {
       const tokenData = tokenDoc.data();
       if (!tokenData) {
         functions.logger.error('Token document exists but data is undefined', {
-          token: authToken,
+          tokenId,
         });
         res.status(500).json({ error: 'Internal server error reading token data.' });
         return;
       }
+      // Expired tokens get a distinct code so clients can tell them apart from unknown ones
+      if (tokenData.expiresAt && tokenData.expiresAt.toMillis() <= Date.now()) {
+        functions.logger.log('Rejected expired token', { tokenId });
+        res.status(401).json({ error: 'Token has expired.', code: 'token-expired' });
+        return;
+      }
       functions.logger.log('Found Token', { token: tokenData });
-      req.apiToken = { ...tokenData, token: authToken };
-      const callIncrement = admin.firestore.FieldValue.increment(1);
-      tokenRef.update({ calls: callIncrement }).catch((err: unknown) => {
-        functions.logger.error('Failed to increment token calls', {
-          error: err instanceof Error ? err.message : err,
-          token: authToken,
-        });
-      });
+      // Attached before the rate limit check so rejected calls still show in the audit log
+      req.apiToken = { ...tokenData, token: authToken, tokenId };
+      // Counts the call against the token and owner limits (and the lifetime call counter)
+      const rateLimit = await consumeRateLimitSafely(db, tokenDoc, tokenData.owner);
+      if (rateLimit) {
+        setRateLimitHeaders(res, rateLimit);
+        if (!rateLimit.allowed) {
+          functions.logger.warn('Rate limit exceeded', { tokenId, owner: tokenData.owner });
+          res.status(429).json({ error: 'Rate limit exceeded.', code: 'rate-limited' });
+          return;
+        }
+      }
       next();
     } else {
-      functions.logger.log('Did not find token', { token: authToken });
-      res.status(401).json({ error: 'Invalid or expired token.' });
+      functions.logger.log('Did not find token', { tokenId });
+      res.status(401).json({ error: 'Invalid token.', code: 'invalid-token' });
     }
   } catch (error: unknown) {
     functions.logger.error('Error during token verification:', {
-      authHeader: authHeader,
       error: error instanceof Error ? error.message : error,
     });
     res.status(500).json({ error: 'Internal server error during authentication.' });
@@ -7,22 +7,85 @@ import UIDGenerator from 'uid-generator';
 import {
   DocumentReference,
   DocumentSnapshot,
-  WriteBatch,
   Transaction,
   Firestore,
   FieldValue,
 } from 'firebase-admin/firestore';
 import cors from 'cors';
 import * as functions from 'firebase-functions';
-import express, { Express, Request, Response, NextFunction } from 'express';
+import express, { Express, Router, Request, Response, NextFunction } from 'express';
 import bodyParser from 'body-parser';
 import { verifyBearer } from './auth/verifyBearer.js';
+import { auditTokenUsage } from './token/auditLog.js';
+import { validateRequest, schemaRef } from './openapi/validateRequest.js';
+import {
+  getStatusFromHttpsErrorCode,
+  errorEnvelope,
+  envelopeNotFound,
+  envelopeErrorHandler,
+} from './utils/httpErrors.js';
 import tokenHandler from './token/tokenHandler.js';
 import progressHandler from './progress/progressHandler.js';
+import shareHandler from './share/shareHandler.js';
+import teamHandler from './team/teamHandler.js';
+import itemHandler from './items/itemHandler.js';
 import { createToken } from './token/create.js';
 import { revokeToken } from './token/revoke.js';
+import { rotateToken } from './token/rotate.js';
+import { cleanupExpiredTokens } from './token/cleanup.js';
+import { migrateLegacyTaskProgress } from './migrations/legacyTaskProgress.js';
+import { migrateTokenHashes } from './migrations/hashTokens.js';
+import { refreshTarkovDataCache } from './tarkovdata/refreshCache.js';
+import { getTarkovApiUrl, syncTaskData, syncHideoutData } from './tarkovdata/sync.js';
+import { saveItems } from './tarkovdata/items.js';
+import { createWebhook } from './webhook/create.js';
+import { deleteWebhook } from './webhook/delete.js';
+import { progressWebhooks } from './webhook/trigger.js';
+import { createShareLink } from './share/create.js';
+import { updateShareLink } from './share/update.js';
+import { revokeShareLink } from './share/revoke.js';
+import { archiveAndResetProgress } from './progress/archive.js';
+import { snapshotProgress } from './progress/snapshots.js';
+import { restoreProgressSnapshot } from './progress/restoreSnapshot.js';
+import { trackProgressChanges } from './progress/changeLog.js';
+import { getTeamRole, canManageTeam } from './team/roles.js';
+import { promoteTeamMember, demoteTeamMember } from './team/memberRole.js';
+import {
+  transferTeamOwnership,
+  longestStandingMember,
+  ownershipTransferUpdate,
+  displayNameOf,
+} from './team/transferOwnership.js';
+import { TeamInviteDocData, assertInviteUsable } from './team/invites.js';
+import { createTeamInvite } from './team/createInvite.js';
+import { revokeTeamInvite } from './team/revokeInvite.js';
+import { updateTeamSettings } from './team/updateSettings.js';
 admin.initializeApp();
-export { createToken, revokeToken };
+export {
+  createToken,
+  revokeToken,
+  rotateToken,
+  cleanupExpiredTokens,
+  migrateLegacyTaskProgress,
+  migrateTokenHashes,
+  refreshTarkovDataCache,
+  createWebhook,
+  deleteWebhook,
+  progressWebhooks,
+  createShareLink,
+  updateShareLink,
+  revokeShareLink,
+  archiveAndResetProgress,
+  snapshotProgress,
+  restoreProgressSnapshot,
+  trackProgressChanges,
+  promoteTeamMember,
+  demoteTeamMember,
+  transferTeamOwnership,
+  createTeamInvite,
+  revokeTeamInvite,
+  updateTeamSettings,
+};
 interface ApiToken {
   owner: string;
   note: string;
@@ -30,6 +93,7 @@ interface ApiToken {
   calls?: number;
   createdAt?: admin.firestore.Timestamp;
   token?: string;
+  tokenId?: string;
 }
 interface UserContext {
   id: string;
@@ -53,38 +117,98 @@ app.use(bodyParser.urlencoded({ extended: true }));
 // This is a proper type for middleware that is passed to app.use()
 type ExpressMiddleware = (_req: Request, _res: Response, _next: NextFunction) => void;
 
+// /api/v3 shares the /api/v2 routes, but every error it returns uses the same
+// { code, message, details } envelope. /api and /api/v2 keep their original error bodies.
+app.use('/api/v3', errorEnvelope as ExpressMiddleware);
+
+// Public routes do not take a token, so they are registered ahead of the bearer check
+app.get('/api/public/profile/:shareId', shareHandler.getPublicProfile);
+app.get('/api/v2/public/profile/:shareId', shareHandler.getPublicProfile);
+app.get('/api/v3/public/profile/:shareId', shareHandler.getPublicProfile);
+
 // Then use this type instead of inline casting
+app.use(auditTokenUsage as ExpressMiddleware);
 app.use(verifyBearer as ExpressMiddleware);
 
 // Define a type for handlers with only the parameters they use
 type AuthenticatedHandler = (_req: AuthenticatedRequest, _res: Response) => void | Promise<void>;
-app.get('/api/token', tokenHandler.getTokenInfo as AuthenticatedHandler);
-app.get('/api/progress', progressHandler.getPlayerProgress as AuthenticatedHandler);
-app.get('/api/team/progress', progressHandler.getTeamProgress as AuthenticatedHandler);
-app.post('/api/progress/level/:levelValue', progressHandler.setPlayerLevel as AuthenticatedHandler);
-app.post('/api/progress/task/:taskId', progressHandler.updateSingleTask as AuthenticatedHandler);
-app.post('/api/progress/tasks', progressHandler.updateMultipleTasks as AuthenticatedHandler);
-app.post(
-  '/api/progress/task/objective/:objectiveId',
-  progressHandler.updateTaskObjective as AuthenticatedHandler
+// Request validators, checking params, query and body against the schemas in
+// openapi/components.ts before the handler runs
+const validate = {
+  progressChanges: validateRequest({ query: { since: schemaRef('ProgressCursor') } }),
+  progressBatch: validateRequest({ body: schemaRef('ProgressBatch') }),
+  playerLevel: validateRequest({ params: { levelValue: schemaRef('PlayerLevel') } }),
+  singleTask: validateRequest({ body: schemaRef('TaskStateUpdate') }),
+  multipleTasks: validateRequest({ body: schemaRef('MultipleTasksUpdate') }),
+  taskObjective: validateRequest({ body: schemaRef('TaskObjectiveUpdate') }),
+  hideoutModule: validateRequest({ body: schemaRef('HideoutModuleUpdate') }),
+  hideoutPart: validateRequest({ body: schemaRef('HideoutPartUpdate') }),
+};
+// Token and progress routes, mounted under each API version below
+const apiRouter: Router = express.Router();
+apiRouter.get('/token', tokenHandler.getTokenInfo as AuthenticatedHandler);
+apiRouter.get('/progress', progressHandler.getPlayerProgress as AuthenticatedHandler);
+apiRouter.get(
+  '/progress/changes',
+  validate.progressChanges,
+  progressHandler.getProgressChanges as AuthenticatedHandler
+);
+apiRouter.patch(
+  '/progress',
+  validate.progressBatch,
+  progressHandler.updateProgressBatch as AuthenticatedHandler
+);
+apiRouter.get('/team/progress', progressHandler.getTeamProgress as AuthenticatedHandler);
+apiRouter.get(
+  '/progress/tasks/available',
+  progressHandler.getAvailableTasks as AuthenticatedHandler
+);
+apiRouter.get(
+  '/team/tasks/available',
+  progressHandler.getTeamAvailableTasks as AuthenticatedHandler
 );
-// --- Backward Compatibility Routes for /api/v2 ---
-// These routes ensure that old /api/v2/ endpoints still work by pointing to the same handlers.
-// v2 Token Route
-app.get('/api/v2/token', tokenHandler.getTokenInfo as AuthenticatedHandler);
-// v2 Progress Routes
-app.get('/api/v2/progress', progressHandler.getPlayerProgress as AuthenticatedHandler);
-app.get('/api/v2/team/progress', progressHandler.getTeamProgress as AuthenticatedHandler);
-app.post(
-  '/api/v2/progress/level/:levelValue',
+apiRouter.get(
+  '/progress/items/needed',
+  progressHandler.getPlayerNeededItems as AuthenticatedHandler
+);
+apiRouter.get('/team/items/needed', progressHandler.getTeamNeededItems as AuthenticatedHandler);
+apiRouter.get('/team', teamHandler.getTeamInfo as AuthenticatedHandler);
+apiRouter.get('/items/:itemId', itemHandler.getItem as AuthenticatedHandler);
+apiRouter.post(
+  '/progress/level/:levelValue',
+  validate.playerLevel,
   progressHandler.setPlayerLevel as AuthenticatedHandler
 );
-app.post('/api/v2/progress/task/:taskId', progressHandler.updateSingleTask as AuthenticatedHandler);
-app.post('/api/v2/progress/tasks', progressHandler.updateMultipleTasks as AuthenticatedHandler);
-app.post(
-  '/api/v2/progress/task/objective/:objectiveId',
+apiRouter.post(
+  '/progress/task/:taskId',
+  validate.singleTask,
+  progressHandler.updateSingleTask as AuthenticatedHandler
+);
+apiRouter.post(
+  '/progress/tasks',
+  validate.multipleTasks,
+  progressHandler.updateMultipleTasks as AuthenticatedHandler
+);
+apiRouter.post(
+  '/progress/task/objective/:objectiveId',
+  validate.taskObjective,
   progressHandler.updateTaskObjective as AuthenticatedHandler
 );
+apiRouter.post(
+  '/progress/hideout/module/:moduleId',
+  validate.hideoutModule,
+  progressHandler.updateHideoutModule as AuthenticatedHandler
+);
+apiRouter.post(
+  '/progress/hideout/part/:partId',
+  validate.hideoutPart,
+  progressHandler.updateHideoutPart as AuthenticatedHandler
+);
+// /api/v2 is kept so existing integrations using the old prefix keep working
+app.use(['/api', '/api/v2'], apiRouter);
+app.use('/api/v3', apiRouter);
+app.use('/api/v3', envelopeNotFound as ExpressMiddleware);
+app.use('/api/v3', envelopeErrorHandler);
 
 // Define a type for Express error handling middleware to clearly show intent
 type ErrorHandlerMiddleware = (
@@ -132,6 +256,7 @@ interface TeamDocData {
   password?: string;
   maximumMembers?: number;
   members?: string[];
+  admins?: string[];
   createdAt?: admin.firestore.Timestamp;
 }
 async function _leaveTeamLogic(request: CallableRequest<void>): Promise<{ left: boolean }> {
@@ -156,34 +281,39 @@ async function _leaveTeamLogic(request: CallableRequest<void>): Promise<{ left:
         const teamDoc: DocumentSnapshot<TeamDocData> = await transaction.get(teamRef);
         const teamData = teamDoc?.data();
         if (teamData?.owner === userUid) {
-          if (teamData?.members) {
-            teamData.members.forEach((member: string) => {
-              logger.log('Removing team from member', {
-                member,
-                team: originalTeam,
-              });
-              transaction.set(
-                db.collection('system').doc(member),
-                {
-                  team: null,
-                  lastLeftTeam: FieldValue.serverTimestamp(),
-                },
-                { merge: true }
-              );
+          const newOwner = longestStandingMember(teamData);
+          if (newOwner) {
+            // Keep the team going under the longest-standing member instead of disbanding it
+            logger.log('Handing team to longest-standing member', {
+              team: originalTeam,
+              newOwner,
+            });
+            const ownerName = await displayNameOf(transaction, db, userUid);
+            transaction.update(teamRef, {
+              ...ownershipTransferUpdate(teamData, newOwner, 'owner-left', ownerName),
             });
+          } else {
+            // The owner was alone in the team, so there is no one to hand it to
+            transaction.delete(teamRef);
           }
-          transaction.delete(teamRef);
         } else {
-          transaction.set(teamRef, { members: FieldValue.arrayRemove(userUid) }, { merge: true });
           transaction.set(
-            systemRef,
+            teamRef,
             {
-              team: null,
-              lastLeftTeam: FieldValue.serverTimestamp(),
+              members: FieldValue.arrayRemove(userUid),
+              admins: FieldValue.arrayRemove(userUid),
             },
             { merge: true }
           );
         }
+        transaction.set(
+          systemRef,
+          {
+            team: null,
+            lastLeftTeam: FieldValue.serverTimestamp(),
+          },
+          { merge: true }
+        );
       } else {
         throw new HttpsError('failed-precondition', 'User is not in a team');
       }
@@ -206,9 +336,11 @@ async function _leaveTeamLogic(request: CallableRequest<void>): Promise<{ left:
     throw new HttpsError('internal', 'Error during team leave', message);
   }
 }
+// Joining needs either the team password or one of the team's invite codes
 interface JoinTeamData {
   id: string;
-  password: string;
+  password?: string;
+  invite?: string;
 }
 async function _joinTeamLogic(
   request: CallableRequest<JoinTeamData>
@@ -229,8 +361,8 @@ async function _joinTeamLogic(
       if (systemData?.team) {
         throw new HttpsError('failed-precondition', 'User is already in a team');
       }
-      if (!data.id || !data.password) {
-        throw new HttpsError('invalid-argument', 'Team ID and password required.');
+      if (!data.id || (!data.password && !data.invite)) {
+        throw new HttpsError('invalid-argument', 'Team ID and password or invite code required.');
       }
       const teamRef: DocumentReference<TeamDocData> = db
         .collection('team')
@@ -240,12 +372,19 @@ async function _joinTeamLogic(
       if (!teamDoc?.exists) {
         throw new HttpsError('not-found', "Team doesn't exist");
       }
-      if (teamData?.password !== data.password) {
+      const inviteRef = data.invite ? teamRef.collection('invites').doc(data.invite) : null;
+      if (inviteRef) {
+        const inviteDoc = await transaction.get(inviteRef);
+        assertInviteUsable(inviteDoc.data() as TeamInviteDocData | undefined, Date.now());
+      } else if (teamData?.password !== data.password) {
         throw new HttpsError('unauthenticated', 'Wrong password');
       }
       if ((teamData?.members?.length ?? 0) >= (teamData?.maximumMembers ?? 10)) {
         throw new HttpsError('resource-exhausted', 'Team is full');
       }
+      if (inviteRef) {
+        transaction.update(inviteRef, { uses: FieldValue.increment(1) });
+      }
       transaction.set(teamRef, { members: FieldValue.arrayUnion(userUid) }, { merge: true });
       transaction.set(systemRef, { team: data.id }, { merge: true });
     });
@@ -451,13 +590,29 @@ async function _kickTeamMemberLogic(
         .doc(teamId) as DocumentReference<TeamDocData>;
       const teamDoc: DocumentSnapshot<TeamDocData> = await transaction.get(teamRef);
       const teamData = teamDoc?.data();
-      if (teamData?.owner !== userUid) {
-        throw new HttpsError('permission-denied', 'Only the team owner can kick members.');
+      const role = getTeamRole(teamData, userUid);
+      if (!canManageTeam(role)) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the team owner and admins can kick members.'
+        );
       }
-      if (!teamData?.members?.includes(data.kicked)) {
+      const kickedRole = getTeamRole(teamData, data.kicked);
+      if (!kickedRole) {
         throw new HttpsError('not-found', 'User not found in team.');
       }
-      transaction.set(teamRef, { members: FieldValue.arrayRemove(data.kicked) }, { merge: true });
+      // Admins can only kick plain members; the owner can kick anyone but themselves
+      if (role === 'admin' && kickedRole !== 'member') {
+        throw new HttpsError('permission-denied', 'Only the team owner can kick admins.');
+      }
+      transaction.set(
+        teamRef,
+        {
+          members: FieldValue.arrayRemove(data.kicked),
+          admins: FieldValue.arrayRemove(data.kicked),
+        },
+        { merge: true }
+      );
       const kickedUserSystemRef: DocumentReference<SystemDocData> = db
         .collection('system')
         .doc(data.kicked) as DocumentReference<SystemDocData>;
@@ -491,45 +646,6 @@ async function _kickTeamMemberLogic(
 const corsHandler = cors({
   origin: ['https://tarkov-tracker-dev.web.app', 'https://tarkovtracker.org'],
 });
-function getStatusFromHttpsErrorCode(code: FunctionsErrorCode): number {
-  switch (code) {
-    case 'ok':
-      return 200;
-    case 'cancelled':
-      return 499;
-    case 'unknown':
-      return 500;
-    case 'invalid-argument':
-      return 400;
-    case 'deadline-exceeded':
-      return 504;
-    case 'not-found':
-      return 404;
-    case 'already-exists':
-      return 409;
-    case 'permission-denied':
-      return 403;
-    case 'resource-exhausted':
-      return 429;
-    case 'failed-precondition':
-      return 400;
-    case 'aborted':
-      return 409;
-    case 'out-of-range':
-      return 400;
-    case 'unauthenticated':
-      return 401;
-    case 'internal':
-      return 500;
-    case 'unavailable':
-      return 503;
-    case 'data-loss':
-      return 500;
-    default:
-      logger.warn('Unknown HttpsError code received:', code);
-      return 500;
-  }
-}
 export const createTeam = functions.https.onRequest((req, res) => {
   corsHandler(req, res, async () => {
     try {
@@ -914,7 +1030,7 @@ async function retrieveTarkovdata(): Promise<TarkovDataResponse | undefined> {
     }
   `;
   try {
-    const data: TarkovDataResponse = await request('https://api.tarkov.dev/graphql', query);
+    const data: TarkovDataResponse = await request(getTarkovApiUrl(), query);
     return data;
   } catch (e: unknown) {
     logger.error(
@@ -925,21 +1041,14 @@ async function retrieveTarkovdata(): Promise<TarkovDataResponse | undefined> {
   }
 }
 async function saveTarkovData(data: TarkovDataResponse | undefined) {
-  if (!data || !data.items) {
+  if (!data || !data.items || data.items.length === 0) {
+    // An empty list would otherwise delete every stored item
     logger.error('No data received from Tarkov API to save.');
     return;
   }
-  const db: Firestore = admin.firestore();
-  const batch: WriteBatch = db.batch();
-  const itemsCollection = db.collection('items');
-  data.items.forEach((item: TarkovItem) => {
-    const docId = item.id.replace(/[/\\*?[\]]/g, '_');
-    const docRef = itemsCollection.doc(docId);
-    batch.set(docRef, item);
-  });
   try {
-    await batch.commit();
-    logger.log(`Successfully saved ${data.items.length} items to Firestore.`);
+    const summary = await saveItems(data.items);
+    logger.log('Saved Tarkov items to Firestore.', summary);
   } catch (e: unknown) {
     logger.error(
       'Failed to save Tarkov data to Firestore:',
@@ -951,4 +1060,6 @@ export const scheduledTarkovDataFetch = onSchedule('every day 00:00', async () =
   logger.log('Running scheduled Tarkov data fetch...');
   const data = await retrieveTarkovdata();
   await saveTarkovData(data);
+  await syncTaskData();
+  await syncHideoutData();
 });
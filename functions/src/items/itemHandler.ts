@@ -0,0 +1,80 @@
+import functions from 'firebase-functions';
+import admin from 'firebase-admin';
+import { Request, Response } from 'express';
+import { Firestore } from 'firebase-admin/firestore';
+import { hasPermission } from '../auth/permissions.js';
+import { itemDocId } from '../tarkovdata/items.js';
+
+interface AuthenticatedRequest extends Request {
+  apiToken?: { owner: string; permissions: string[] };
+}
+
+/**
+ * @openapi
+ * /items/{itemId}:
+ *   get:
+ *     summary: "Returns item data, including prices, as last fetched from tarkov.dev"
+ *     tags:
+ *       - "Items"
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: "itemId"
+ *         in: "path"
+ *         description: "Item ID as used by the tarkov.dev API"
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: "Item retrieved successfully."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: object
+ *                   description: "The item as returned by the tarkov.dev API"
+ *       400:
+ *         description: "The item ID cannot be a Firestore document ID."
+ *       401:
+ *         description: "Unauthorized. Invalid token or missing 'RI' permission."
+ *       404:
+ *         description: "Item not found."
+ *       500:
+ *         description: "Internal server error."
+ */
+const getItem = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'RI')) {
+    const db: Firestore = admin.firestore();
+    const docId = itemDocId(req.params.itemId);
+    // Firestore rejects these document IDs, so no item can be stored under them
+    if (docId === '.' || docId === '..' || /^__.*__$/.test(docId)) {
+      res.status(400).send({ error: 'Invalid item ID.' });
+      return;
+    }
+    try {
+      const itemDoc = await db.collection('items').doc(docId).get();
+      if (!itemDoc.exists) {
+        res.status(404).send({ error: 'Item not found.' });
+        return;
+      }
+      res.status(200).json({ data: itemDoc.data() });
+    } catch (error: unknown) {
+      functions.logger.error('Error fetching item:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+        itemId: req.params.itemId,
+      });
+      res.status(500).send({ error: 'Failed to retrieve item.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
+export default {
+  getItem,
+};
@@ -0,0 +1,101 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import {
+  Firestore,
+  DocumentData,
+  DocumentReference,
+  QueryDocumentSnapshot,
+  SetOptions,
+  Transaction,
+} from 'firebase-admin/firestore';
+import { requireAdmin } from '../auth/admin.js';
+import { hashToken, tokenPrefix, isHashedTokenId } from '../token/tokenHash.js';
+
+// Tokens created before hashing was introduced use the plaintext secret as their document ID
+// and are listed in plaintext in system/{uid}.tokens. This moves each of them under the hash
+// of the secret, so existing integrations keep working with the same secret.
+interface MigrationResult {
+  scanned: number;
+  migrated: number;
+}
+
+// Each token needs up to four writes (new doc, old doc delete, two system doc updates)
+const TOKENS_PER_BATCH = 100;
+
+// The writes WriteBatch and Transaction have in common
+interface TokenWriter {
+  set(_documentRef: DocumentReference, _data: DocumentData, _options?: SetOptions): unknown;
+  update(_documentRef: DocumentReference, _data: DocumentData): unknown;
+  delete(_documentRef: DocumentReference): unknown;
+}
+
+// Queues the writes that move a legacy token under the hash of its secret
+function moveLegacyToken(
+  writer: TokenWriter,
+  db: Firestore,
+  secret: string,
+  tokenData: DocumentData
+): string {
+  const tokenId = hashToken(secret);
+  const owner = tokenData.owner;
+  writer.set(db.collection('token').doc(tokenId), { ...tokenData, prefix: tokenPrefix(secret) });
+  writer.delete(db.collection('token').doc(secret));
+  if (typeof owner === 'string') {
+    // arrayRemove and arrayUnion cannot be combined on one field in a single write,
+    // so the hash is added here and the plaintext removed in a second update below
+    writer.set(
+      db.collection('system').doc(owner),
+      { tokens: admin.firestore.FieldValue.arrayUnion(tokenId) },
+      { merge: true }
+    );
+    writer.update(db.collection('system').doc(owner), {
+      tokens: admin.firestore.FieldValue.arrayRemove(secret),
+    });
+  }
+  return tokenId;
+}
+
+// Migrates a single legacy token when it is first used after the deploy, so integrations keep
+// working before migrateTokenHashes has been run. Returns false when no legacy token exists.
+export async function migrateLegacyToken(db: Firestore, secret: string): Promise<boolean> {
+  return db.runTransaction(async (transaction: Transaction) => {
+    const legacyDoc = await transaction.get(db.collection('token').doc(secret));
+    const hashedDoc = await transaction.get(db.collection('token').doc(hashToken(secret)));
+    if (hashedDoc.exists) return true;
+    if (!legacyDoc.exists) return false;
+    moveLegacyToken(transaction, db, secret, legacyDoc.data() as DocumentData);
+    return true;
+  });
+}
+
+async function _migrateTokenHashesLogic(request: CallableRequest<void>): Promise<MigrationResult> {
+  requireAdmin(request);
+  const db: Firestore = admin.firestore();
+  let scanned = 0;
+  let migrated = 0;
+  try {
+    const tokenDocs = await db.collection('token').get();
+    scanned = tokenDocs.size;
+    const legacyDocs = tokenDocs.docs.filter((doc) => !isHashedTokenId(doc.id));
+    for (let i = 0; i < legacyDocs.length; i += TOKENS_PER_BATCH) {
+      const batch = db.batch();
+      legacyDocs.slice(i, i + TOKENS_PER_BATCH).forEach((doc: QueryDocumentSnapshot) => {
+        moveLegacyToken(batch, db, doc.id, doc.data());
+      });
+      await batch.commit();
+      migrated += Math.min(TOKENS_PER_BATCH, legacyDocs.length - i);
+    }
+  } catch (error) {
+    logger.error('Token hash migration failed:', {
+      error: error instanceof Error ? error.message : String(error),
+      scanned,
+      migrated,
+    });
+    throw new HttpsError('internal', 'Migration failed.', { scanned, migrated });
+  }
+  logger.log('Token hash migration finished', { scanned, migrated });
+  return { scanned, migrated };
+}
+
+export const migrateTokenHashes = onCall(_migrateTokenHashesLogic);
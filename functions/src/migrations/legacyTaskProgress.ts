@@ -0,0 +1,156 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore, FieldPath, FieldValue, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { requireAdmin } from '../auth/admin.js';
+import { getTaskData } from '../utils/dataLoaders.js';
+import { ProgressUpdate } from '../progress/sharedState.js';
+
+// Older API versions stored task progress as `tasks.<taskId>.st` (a status string) with
+// objectives under `tasks.<taskId>.obj.<index>`. The web app only reads `taskCompletions`
+// and `taskObjectives`, so progress written that way never showed up in the UI.
+interface LegacyTaskProgress {
+  st?: string;
+  cAt?: admin.firestore.Timestamp | number;
+  obj?: { [objectiveIndex: string]: boolean | number };
+}
+interface LegacyProgressDocData {
+  tasks?: { [taskId: string]: LegacyTaskProgress };
+  taskCompletions?: { [taskId: string]: unknown };
+  taskObjectives?: { [objectiveId: string]: unknown };
+}
+interface TaskObjective {
+  id: string;
+}
+interface Task {
+  id: string;
+  objectives?: TaskObjective[];
+}
+interface TaskData {
+  tasks?: Task[];
+}
+interface MigrationResult {
+  scanned: number;
+  migrated: number;
+}
+
+const PAGE_SIZE = 400; // Stays below Firestore's 500 writes per batch
+
+function legacyTimestamp(cAt: LegacyTaskProgress['cAt']): number {
+  if (typeof cAt === 'number') return cAt;
+  if (cAt && typeof cAt.toMillis === 'function') return cAt.toMillis();
+  return Date.now();
+}
+
+const LEGACY_STATUSES = ['completed', 'failed', 'uncompleted'];
+
+// Builds the update that moves one progress document off the legacy `tasks` map.
+// Entries already present in the current schema win over legacy ones. A legacy entry is only
+// deleted once its status and every objective index were carried over; entries that could not
+// be mapped (unknown status, objective index missing from the task data) are kept for a later run.
+// Returns null when the document has nothing to migrate.
+export function buildLegacyTaskMigration(
+  progressData: LegacyProgressDocData,
+  taskData: TaskData | null
+): ProgressUpdate | null {
+  const legacyTasks = progressData.tasks;
+  if (!legacyTasks || typeof legacyTasks !== 'object') return null;
+  const update: ProgressUpdate = {};
+  const migratedTaskIds: string[] = [];
+  const taskIds = Object.keys(legacyTasks);
+  for (const [taskId, legacy] of Object.entries(legacyTasks)) {
+    if (!legacy || typeof legacy !== 'object') {
+      // Nothing in it can be carried over
+      migratedTaskIds.push(taskId);
+      continue;
+    }
+    let complete = true;
+    if (legacy.st && !progressData.taskCompletions?.[taskId]) {
+      const timestamp = legacyTimestamp(legacy.cAt);
+      if (legacy.st === 'completed' || legacy.st === 'failed') {
+        update[`taskCompletions.${taskId}.complete`] = true;
+        update[`taskCompletions.${taskId}.failed`] = legacy.st === 'failed';
+        update[`taskCompletions.${taskId}.timestamp`] = timestamp;
+      } else if (legacy.st === 'uncompleted') {
+        update[`taskCompletions.${taskId}.complete`] = false;
+        update[`taskCompletions.${taskId}.failed`] = false;
+      }
+    }
+    if (legacy.st && !LEGACY_STATUSES.includes(legacy.st)) complete = false;
+    if (legacy.obj && typeof legacy.obj === 'object') {
+      const objectives = taskData?.tasks?.find((task) => task.id === taskId)?.objectives ?? [];
+      for (const [index, value] of Object.entries(legacy.obj)) {
+        const objectiveId = objectives[Number(index)]?.id;
+        if (!objectiveId) {
+          complete = false;
+          continue;
+        }
+        if (progressData.taskObjectives?.[objectiveId]) continue;
+        if (typeof value === 'boolean') {
+          update[`taskObjectives.${objectiveId}.complete`] = value;
+        } else if (typeof value === 'number') {
+          update[`taskObjectives.${objectiveId}.count`] = value;
+        }
+      }
+    }
+    if (complete) migratedTaskIds.push(taskId);
+  }
+  if (migratedTaskIds.length === taskIds.length) {
+    update.tasks = FieldValue.delete();
+  } else {
+    migratedTaskIds.forEach((taskId) => {
+      update[`tasks.${taskId}`] = FieldValue.delete();
+    });
+  }
+  return Object.keys(update).length > 0 ? update : null;
+}
+
+// One-time migration over every progress document. Restricted to admins.
+async function _migrateLegacyTaskProgressLogic(
+  request: CallableRequest<void>
+): Promise<MigrationResult> {
+  requireAdmin(request);
+  const db: Firestore = admin.firestore();
+  const taskData = (await getTaskData({ revalidate: true })) as TaskData | null;
+  // Without the task data no objective index can be mapped, so nothing would be migrated
+  if (!taskData?.tasks) {
+    throw new HttpsError(
+      'failed-precondition',
+      'Task data is not available. Sync the tarkov data before running the migration.'
+    );
+  }
+  let scanned = 0;
+  let migrated = 0;
+  let lastDoc: QueryDocumentSnapshot | undefined;
+  try {
+    for (;;) {
+      let query = db.collection('progress').orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+      if (lastDoc) query = query.startAfter(lastDoc);
+      const page = await query.get();
+      if (page.empty) break;
+      const batch = db.batch();
+      let writes = 0;
+      page.docs.forEach((doc) => {
+        scanned++;
+        const update = buildLegacyTaskMigration(doc.data() as LegacyProgressDocData, taskData);
+        if (update) {
+          batch.update(doc.ref, update);
+          writes++;
+        }
+      });
+      if (writes > 0) {
+        await batch.commit();
+        migrated += writes;
+      }
+      lastDoc = page.docs[page.docs.length - 1];
+      if (page.size < PAGE_SIZE) break;
+    }
+  } catch (error) {
+    logger.error('Legacy task progress migration failed:', { error, scanned, migrated });
+    throw new HttpsError('internal', 'Migration failed.', { scanned, migrated });
+  }
+  logger.log('Legacy task progress migration finished', { scanned, migrated });
+  return { scanned, migrated };
+}
+
+export const migrateLegacyTaskProgress = onCall(_migrateLegacyTaskProgressLogic);
@@ -13,8 +13,34 @@
  *         permissions:
  *           type: array
  *           description: GP == Get Progression, TP == Team Progression, WP == Write Progression
+ *             (all of WT, WH and WL), WT == Write Tasks, WH == Write Hideout,
+ *             WL == Write Level and Profile, TM == Team Metadata, RI == Read Items
  *           items:
  *             type: string
+ *     Team:
+ *       title: Team
+ *       description: Metadata of the player's team.
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         owner:
+ *           type: string
+ *           description: User ID of the team owner
+ *         maximumMembers:
+ *           type: integer
+ *         createdAt:
+ *           type: integer
+ *           description: Milliseconds since the epoch
+ *         members:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               displayName:
+ *                 type: string
  *     TeamProgress:
  *       title: TeamProgress
  *       description: Array of team member's progress data.
@@ -62,6 +88,40 @@
  *         pmcFaction:
  *           type: string
  *           description: Player's PMC faction (USEC, BEAR)
+ *     PublicProfile:
+ *       title: PublicProfile
+ *       description: Progress shared through a share link. Fields the player has chosen to hide
+ *         are omitted; with "tasks only" sharing, only task and objective progress is included.
+ *       type: object
+ *       properties:
+ *         shareId:
+ *           type: string
+ *           description: ID of the share link
+ *         displayName:
+ *           type: string
+ *           description: Player's TarkovTracker display name, unless hidden or never set
+ *         playerLevel:
+ *           type: integer
+ *         gameEdition:
+ *           type: integer
+ *         pmcFaction:
+ *           type: string
+ *         tasksProgress:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TaskProgress'
+ *         taskObjectivesProgress:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TaskObjectiveProgress'
+ *         hideoutModulesProgress:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/HideoutModulesProgress'
+ *         hideoutPartsProgress:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/HideoutPartsProgress'
  *     TaskProgress:
  *       title: TaskProgress
  *       description: Player's progress of a given task. The key is the UUID correlating to the task ID
@@ -82,6 +142,10 @@
  *           type: boolean
  *           description: True if a given quest is no longer accessible, but not necessarily failed
  *             (eg. wrong faction, part of a quest chain that was not chosen by previous completions)
+ *         timestamp:
+ *           type: integer
+ *           description: Time of the last change in milliseconds since the epoch. Only returned by
+ *             /progress/changes
  *     HideoutModulesProgress:
  *       title: HideoutModulesProgress
  *       description: Player's progress on a given hideout module.
@@ -93,6 +157,10 @@
  *         complete:
  *           type: boolean
  *           description: True if a given hideout module has been installed
+ *         timestamp:
+ *           type: integer
+ *           description: Time of the last change in milliseconds since the epoch. Only returned by
+ *             /progress/changes
  *     TaskObjectiveProgress:
  *       title: TaskObjectiveProgress
  *       description: Player's progress on a given task objective.
@@ -111,6 +179,10 @@
  *           type: boolean
  *           description: True if a given objective is no longer accessible, but not necessarily failed
  *             (eg. wrong faction, part of a quest chain that was not chosen by previous completions)
+ *         timestamp:
+ *           type: integer
+ *           description: Time of the last change in milliseconds since the epoch. Only returned by
+ *             /progress/changes
  *     HideoutPartsProgress:
  *       title: HideoutPartsProgress
  *       description: Player's progress on items needed for hideout module upgrades.
@@ -126,7 +198,386 @@
  *           type: string
  *           description: UUID correlating to individual hideout station level item requirements' ID
  *             available via the tarkov.dev API
+ *         timestamp:
+ *           type: integer
+ *           description: Time of the last change in milliseconds since the epoch. Only returned by
+ *             /progress/changes
+ *     ProgressBatchResult:
+ *       title: ProgressBatchResult
+ *       description: Outcome of a PATCH /progress batch, with one result per operation in request order.
+ *       type: object
+ *       properties:
+ *         message:
+ *           type: string
+ *         error:
+ *           type: string
+ *         results:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               index:
+ *                 type: integer
+ *                 description: Position of the operation in the request
+ *               type:
+ *                 type: string
+ *                 description: Operation type
+ *               id:
+ *                 type: string
+ *                 description: ID the operation targeted, if any
+ *               status:
+ *                 type: string
+ *                 enum: [applied, invalid, skipped]
+ *                 description: skipped means the operation was valid but not applied because
+ *                   another operation in the batch was invalid
+ *               error:
+ *                 type: string
+ *                 description: Why the operation is invalid
+ *     NeededItem:
+ *       title: NeededItem
+ *       description: An item still needed for tasks or the hideout, with every need it is counted
+ *         towards.
+ *       type: object
+ *       properties:
+ *         itemId:
+ *           type: string
+ *           description: Item ID from the tarkov.dev API
+ *         name:
+ *           type: string
+ *         shortName:
+ *           type: string
+ *         foundInRaid:
+ *           $ref: "#/components/schemas/NeededItemCount"
+ *         notFoundInRaid:
+ *           $ref: "#/components/schemas/NeededItemCount"
+ *         sources:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [task, hideout]
+ *               id:
+ *                 type: string
+ *                 description: Task objective ID, or hideout item requirement (part) ID
+ *               taskId:
+ *                 type: string
+ *               objectiveType:
+ *                 type: string
+ *                 enum: [giveItem]
+ *                 description: Type of the task objective. Only item hand-ins are counted.
+ *               stationId:
+ *                 type: string
+ *               moduleId:
+ *                 type: string
+ *                 description: ID of the hideout station level
+ *               level:
+ *                 type: integer
+ *               foundInRaid:
+ *                 type: boolean
+ *               needed:
+ *                 type: integer
+ *               collected:
+ *                 type: integer
+ *     TeamNeededItem:
+ *       title: TeamNeededItem
+ *       description: An item still needed by at least one visible team member.
+ *       type: object
+ *       properties:
+ *         itemId:
+ *           type: string
+ *           description: Item ID from the tarkov.dev API
+ *         name:
+ *           type: string
+ *         shortName:
+ *           type: string
+ *         foundInRaid:
+ *           $ref: "#/components/schemas/NeededItemCount"
+ *         notFoundInRaid:
+ *           $ref: "#/components/schemas/NeededItemCount"
+ *         members:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               remaining:
+ *                 type: integer
+ *                 description: How many more this member needs, found in raid or not
+ *               foundInRaid:
+ *                 $ref: "#/components/schemas/NeededItemCount"
+ *               notFoundInRaid:
+ *                 $ref: "#/components/schemas/NeededItemCount"
+ *               sources:
+ *                 type: array
+ *                 description: Same as the sources of NeededItem
+ *                 items:
+ *                   type: object
+ *     NeededItemCount:
+ *       title: NeededItemCount
+ *       type: object
+ *       properties:
+ *         needed:
+ *           type: integer
+ *           description: Total count required across the sources
+ *         collected:
+ *           type: integer
+ *           description: How many of them the player has already marked as collected
+ *     TaskAvailability:
+ *       title: TaskAvailability
+ *       description: Which tasks a player can start, has completed, or is blocked from.
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: string
+ *         available:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: IDs of tasks that are unlocked and not yet complete
+ *         completed:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: IDs of completed tasks, including failed ones
+ *         locked:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               reasons:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [failedRequirement, playerLevel, traderLevel, prerequisite, faction]
+ *                     taskId:
+ *                       type: string
+ *                       description: The failed task (failedRequirement) or the incomplete
+ *                         prerequisite (prerequisite)
+ *                     traderId:
+ *                       type: string
+ *                     required:
+ *                       oneOf:
+ *                         - type: integer
+ *                         - type: string
+ *                       description: Level or faction the task requires
+ *                     current:
+ *                       oneOf:
+ *                         - type: integer
+ *                         - type: string
+ *                       description: The player's current level or faction
+ *     ValidationError:
+ *       title: ValidationError
+ *       description: Returned when the path parameters, query or body do not match the schemas in
+ *         this document. Every problem found is listed, not just the first.
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *           example: Request validation failed.
+ *         violations:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               location:
+ *                 type: string
+ *                 enum: [params, query, body]
+ *               path:
+ *                 type: string
+ *                 description: Dotted path to the offending value, e.g. operations[2].state
+ *               message:
+ *                 type: string
+ *     ErrorEnvelope:
+ *       title: ErrorEnvelope
+ *       description: Error body returned by every /api/v3 route in place of the shapes documented
+ *         here for /api/v2. The fields of a v2 error other than `error` are moved into `details`,
+ *         and a v2 `code` (such as token-expired) becomes `details.reason`. A valid token that
+ *         lacks a required permission gets a 403 with code permission-denied instead of the 401
+ *         documented for v2.
+ *       type: object
+ *       required: [code, message]
+ *       properties:
+ *         code:
+ *           type: string
+ *           description: Firebase HttpsError code; the HTTP status always matches it
+ *           enum: [invalid-argument, failed-precondition, out-of-range, unauthenticated,
+ *             permission-denied, not-found, already-exists, aborted, resource-exhausted,
+ *             cancelled, internal, unavailable, deadline-exceeded, unknown, data-loss]
+ *           example: unauthenticated
+ *         message:
+ *           type: string
+ *           example: Token has expired.
+ *         details:
+ *           type: object
+ *           example: { "reason": "token-expired" }
+ *   responses:
+ *     ValidationError:
+ *       description: The request does not match the documented schema.
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/ValidationError"
  */
 
 // This file primarily serves to hold the OpenAPI component definitions.
 // Actual TypeScript interfaces/types should be defined alongside the code that uses them or in dedicated type files.
+
+// Subset of the OpenAPI 3.0 schema object understood by ./validateRequest.ts
+export interface ApiSchema {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: (string | number)[];
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  properties?: { [name: string]: ApiSchema };
+  required?: string[];
+  additionalProperties?: ApiSchema;
+  minProperties?: number;
+  items?: ApiSchema;
+  minItems?: number;
+  maxItems?: number;
+  example?: unknown;
+}
+
+// Schemas of request parameters and bodies. Unlike the response schemas above they are plain
+// objects, so the same definitions are published in the spec (see ./swagger.ts) and enforced on
+// every request by validateRequest.
+export const requestSchemas: { [name: string]: ApiSchema } = {
+  PlayerLevel: {
+    type: 'integer',
+    description: "Player's level",
+    minimum: 1,
+  },
+  ProgressCursor: {
+    type: 'integer',
+    description: 'Cursor in milliseconds since the epoch, as returned in `meta.cursor`',
+    minimum: 0,
+  },
+  TaskState: {
+    type: 'string',
+    description: 'State of a task',
+    enum: ['uncompleted', 'completed', 'failed'],
+  },
+  CompletionState: {
+    type: 'string',
+    description: 'State of a task objective or hideout module',
+    enum: ['completed', 'uncompleted'],
+  },
+  TaskStateUpdate: {
+    type: 'object',
+    required: ['state'],
+    properties: {
+      state: { $ref: '#/components/schemas/TaskState' },
+    },
+  },
+  MultipleTasksUpdate: {
+    type: 'object',
+    description: 'Object where keys are task IDs and values are the new state of each task',
+    minProperties: 1,
+    additionalProperties: { $ref: '#/components/schemas/TaskState' },
+    example: { task1: 'completed', task5: 'failed' },
+  },
+  TaskObjectiveUpdate: {
+    type: 'object',
+    description: 'The objective properties to update. Provide at least one.',
+    minProperties: 1,
+    properties: {
+      state: {
+        type: 'string',
+        description: 'The new state of the task objective',
+        enum: ['completed', 'uncompleted'],
+        nullable: true,
+      },
+      count: {
+        type: 'integer',
+        description: "The number of items or completions toward the objective's goal",
+        minimum: 0,
+        nullable: true,
+      },
+    },
+  },
+  HideoutModuleUpdate: {
+    type: 'object',
+    required: ['state'],
+    properties: {
+      state: { $ref: '#/components/schemas/CompletionState' },
+    },
+  },
+  HideoutPartUpdate: {
+    type: 'object',
+    description: 'The hideout part properties to update. Provide at least one.',
+    minProperties: 1,
+    properties: {
+      count: {
+        type: 'integer',
+        description: 'The number of items collected toward the requirement',
+        minimum: 0,
+      },
+      complete: {
+        type: 'boolean',
+        description: 'Whether the item requirement has been fulfilled',
+      },
+    },
+  },
+  ProgressBatch: {
+    type: 'object',
+    required: ['operations'],
+    properties: {
+      operations: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 500,
+        items: {
+          type: 'object',
+          required: ['type'],
+          properties: {
+            type: {
+              type: 'string',
+              enum: [
+                'task',
+                'objective',
+                'hideoutModule',
+                'hideoutPart',
+                'level',
+                'faction',
+                'gameEdition',
+                'displayName',
+              ],
+            },
+            id: {
+              type: 'string',
+              description:
+                'Task, objective, hideout module or hideout part ID. Required for those operation types.',
+            },
+            state: {
+              type: 'string',
+              description: "'completed', 'uncompleted' or (tasks only) 'failed'",
+            },
+            count: {
+              type: 'integer',
+              minimum: 0,
+              description: 'Objective or hideout part count',
+            },
+            value: {
+              description:
+                "New value for level (integer >= 1), faction ('USEC' or 'BEAR'), gameEdition " +
+                '(integer 1-5) or displayName (string or null)',
+            },
+          },
+        },
+      },
+    },
+  },
+};
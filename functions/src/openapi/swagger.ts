@@ -2,6 +2,7 @@ import swaggerJsdoc from 'swagger-jsdoc';
 import fs from 'fs';
 import path, { dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { requestSchemas } from './components.js';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 // Helper function to find the project root by looking for a marker file
@@ -23,7 +24,9 @@ const swaggerOptions: swaggerJsdoc.Options = {
     openapi: '3.0.0',
     info: {
       title: 'TarkovTracker API (Fork)',
-      description: "Player's progress, objectives, level, reputation and more.",
+      description:
+        "Player's progress, objectives, level, reputation and more. The same routes are " +
+        'served under /api/v3, where every error is returned as an ErrorEnvelope.',
       version: '2.0',
       contact: {
         name: 'TarkovTracker GitHub',
@@ -53,13 +56,33 @@ const swaggerOptions: swaggerJsdoc.Options = {
         name: 'Progress',
         description: 'Operations related to player and team progress',
       },
+      {
+        name: 'Team',
+        description: "Operations related to the player's team",
+      },
+      {
+        name: 'Items',
+        description: 'Item data from tarkov.dev',
+      },
+      {
+        name: 'Public',
+        description: 'Progress players have chosen to share publicly; no token required',
+      },
     ],
     components: {
+      // Request body and parameter schemas are shared with validateRequest; the response
+      // schemas come from the JSDoc in ./components.ts
+      schemas: requestSchemas,
       securitySchemes: {
         bearerAuth: {
           type: 'http',
           scheme: 'bearer',
           bearerFormat: 'JWT',
+          description:
+            'API token created in the TarkovTracker settings. Requests are rate limited per token ' +
+            'and per account; every response carries X-RateLimit-Limit, X-RateLimit-Remaining ' +
+            'and X-RateLimit-Reset headers, and requests over the limit receive a 429 with a ' +
+            'Retry-After header. Expired tokens are rejected with a 401 and code "token-expired".',
         },
       },
     },
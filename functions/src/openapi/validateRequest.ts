@@ -0,0 +1,176 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiSchema, requestSchemas } from './components.js';
+
+export interface Violation {
+  location: 'params' | 'query' | 'body';
+  path: string; // Dotted path to the offending value, e.g. operations[2].type
+  message: string;
+}
+// Schemas for the parts of a request a route accepts; params and query are given per name
+interface RequestSpec {
+  params?: { [name: string]: ApiSchema };
+  query?: { [name: string]: ApiSchema };
+  body?: ApiSchema;
+}
+
+const REF_PREFIX = '#/components/schemas/';
+
+export function schemaRef(name: string): ApiSchema {
+  if (!requestSchemas[name]) {
+    throw new Error(`Unknown request schema: ${name}`);
+  }
+  return { $ref: `${REF_PREFIX}${name}` };
+}
+
+function resolve(schema: ApiSchema): ApiSchema {
+  let resolved = schema;
+  while (resolved.$ref) {
+    const target = requestSchemas[resolved.$ref.substring(REF_PREFIX.length)];
+    if (!target) throw new Error(`Unknown request schema: ${resolved.$ref}`);
+    resolved = target;
+  }
+  return resolved;
+}
+
+function typeMatches(type: ApiSchema['type'], value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+    case 'boolean':
+      return typeof value === type;
+    default:
+      return true;
+  }
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+// Checks a value against a schema and returns every violation found, not just the first
+export function validateSchema(
+  rawSchema: ApiSchema,
+  value: unknown,
+  location: Violation['location'],
+  path = ''
+): Violation[] {
+  const schema = resolve(rawSchema);
+  const violation = (message: string): Violation => ({ location, path, message });
+  if (value === null) {
+    return schema.nullable || !schema.type ? [] : [violation('must not be null')];
+  }
+  if (!typeMatches(schema.type, value)) {
+    const article = schema.type === 'integer' || schema.type === 'object' ? 'an' : 'a';
+    return [violation(`must be ${article} ${schema.type}`)];
+  }
+  const violations: Violation[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    violations.push(violation(`must be one of: ${schema.enum.join(', ')}`));
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push(violation(`must be at least ${schema.minimum}`));
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push(violation(`must be at most ${schema.maximum}`));
+    }
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push(violation(`must be at least ${schema.minLength} characters long`));
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push(violation(`must be at most ${schema.maxLength} characters long`));
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push(violation(`must contain at least ${schema.minItems} items`));
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push(violation(`must contain at most ${schema.maxItems} items`));
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        violations.push(...validateSchema(schema.items!, item, location, childPath(path, index)));
+      });
+    }
+  }
+  if (schema.type === 'object') {
+    const object = value as { [key: string]: unknown };
+    const keys = Object.keys(object);
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      violations.push(violation(`must have at least ${schema.minProperties} properties`));
+    }
+    (schema.required ?? []).forEach((name) => {
+      if (object[name] === undefined) {
+        violations.push({ location, path: childPath(path, name), message: 'is required' });
+      }
+    });
+    keys.forEach((key) => {
+      const propertySchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (propertySchema && object[key] !== undefined) {
+        violations.push(
+          ...validateSchema(propertySchema, object[key], location, childPath(path, key))
+        );
+      }
+    });
+  }
+  return violations;
+}
+
+// Path and query parameters always arrive as strings; convert those declared as numbers or
+// booleans so they can be checked against their schema
+function coerceParameter(schema: ApiSchema, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const type = resolve(schema).type;
+  if ((type === 'integer' || type === 'number') && /^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  if (type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+}
+
+function validateParameters(
+  schemas: { [name: string]: ApiSchema } | undefined,
+  values: { [name: string]: unknown } | undefined,
+  location: 'params' | 'query'
+): Violation[] {
+  return Object.entries(schemas ?? {}).flatMap(([name, schema]) => {
+    const value = values?.[name];
+    // Path parameters are always present; optional query parameters may be left out
+    if (value === undefined) return [];
+    return validateSchema(schema, coerceParameter(schema, value), location, name);
+  });
+}
+
+// Rejects requests that do not match the route's schemas before they reach the handler, with
+// a 400 listing every violation. Routes register it alongside their handler in index.ts.
+export const validateRequest =
+  (spec: RequestSpec) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const violations = [
+      ...validateParameters(spec.params, req.params, 'params'),
+      ...validateParameters(spec.query, req.query as { [name: string]: unknown }, 'query'),
+      ...(spec.body
+        ? req.body === undefined
+          ? [{ location: 'body', path: '', message: 'is required' } as Violation]
+          : validateSchema(spec.body, req.body, 'body')
+        : []),
+    ];
+    if (violations.length > 0) {
+      res.status(400).send({ error: 'Request validation failed.', violations });
+      return;
+    }
+    next();
+  };
@@ -0,0 +1,92 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { markProgressReset } from './changeLog.js';
+
+const MAX_LABEL_LENGTH = 100;
+
+interface ArchiveRequestData {
+  label?: unknown;
+}
+interface ProgressDocData {
+  level?: number;
+  gameEdition?: number;
+  pmcFaction?: string;
+  displayName?: string | null;
+  [key: string]: unknown;
+}
+// progress/{uid}/archives/{wipeId}
+export interface ProgressArchiveDocData {
+  label: string;
+  archivedAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+  progress: ProgressDocData;
+}
+
+// What survives a wipe: the game edition, faction and display name belong to the account rather
+// than to the wipe. Everything else starts over as in the web app's defaultState.
+export function wipeProgress(progress: ProgressDocData): ProgressDocData {
+  return {
+    level: 1,
+    gameEdition: progress.gameEdition ?? 1,
+    pmcFaction: progress.pmcFaction ?? 'USEC',
+    displayName: progress.displayName ?? null,
+    taskObjectives: {},
+    taskCompletions: {},
+    hideoutParts: {},
+    hideoutModules: {},
+  };
+}
+
+// Copies the caller's progress into progress/{uid}/archives/{wipeId} and resets it for a new
+// wipe, in one transaction so progress is never reset without its archive.
+async function _archiveAndResetProgressLogic(
+  request: CallableRequest<ArchiveRequestData>
+): Promise<{ wipeId: string; progress: ProgressDocData }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const label = request.data?.label ?? '';
+  if (typeof label !== 'string' || label.length > MAX_LABEL_LENGTH) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Invalid archive parameters: label must be a string of at most ${MAX_LABEL_LENGTH} characters.`
+    );
+  }
+  const progressRef = db.collection('progress').doc(ownerUid);
+  const archiveRef = progressRef.collection('archives').doc();
+  try {
+    const progress = await db.runTransaction(async (transaction: Transaction) => {
+      const progressDoc = await transaction.get(progressRef);
+      if (!progressDoc.exists) {
+        throw new HttpsError('failed-precondition', 'There is no progress to archive.');
+      }
+      const current = progressDoc.data() as ProgressDocData;
+      const archiveData: ProgressArchiveDocData = {
+        label: label.trim(),
+        archivedAt: admin.firestore.FieldValue.serverTimestamp(),
+        progress: current,
+      };
+      const reset = wipeProgress(current);
+      transaction.set(archiveRef, archiveData);
+      transaction.set(progressRef, reset);
+      markProgressReset(transaction, progressRef);
+      return reset;
+    });
+    logger.log('Archived and reset progress', { owner: ownerUid, wipeId: archiveRef.id });
+    return { wipeId: archiveRef.id, progress };
+  } catch (e: unknown) {
+    logger.error('Failed to archive progress', {
+      owner: ownerUid,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred while archiving progress.');
+  }
+}
+export const archiveAndResetProgress = onCall(_archiveAndResetProgressLogic);
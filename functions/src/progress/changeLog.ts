@@ -0,0 +1,111 @@
+import * as logger from 'firebase-functions/logger';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import admin from 'firebase-admin';
+import { DocumentData, DocumentReference, Firestore, Transaction } from 'firebase-admin/firestore';
+
+// The progress maps whose entries are tracked for GET /progress/changes
+export const PROGRESS_ENTRY_FIELDS = [
+  'taskCompletions',
+  'taskObjectives',
+  'hideoutModules',
+  'hideoutParts',
+] as const;
+export type ProgressEntryField = (typeof PROGRESS_ENTRY_FIELDS)[number];
+
+// progress/{uid}/meta/changes: when each entry last changed or was removed, in server time.
+// A removed entry stays listed as a tombstone. Entries older than CHANGE_LOG_RETENTION_MS are
+// pruned on the next write so the document stays well below Firestore's size limit; cursors
+// older than that get every entry again (see formatProgressChanges).
+export const CHANGE_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+export type ProgressChangeLogData = Partial<
+  Record<ProgressEntryField, { [entryId: string]: admin.firestore.Timestamp }>
+> & {
+  // Set when the whole progress was replaced (wipe reset, snapshot restore); clients that
+  // synced before it have to fetch everything again
+  resetAt?: admin.firestore.Timestamp;
+  // When the progress document last changed at all; the daily snapshot job queries on it
+  lastChangedAt?: admin.firestore.Timestamp;
+};
+
+export const progressChangeLogRef = (progressRef: DocumentReference): DocumentReference =>
+  progressRef.collection('meta').doc('changes');
+
+// Marks the progress as replaced, within the transaction that replaces it
+export function markProgressReset(transaction: Transaction, progressRef: DocumentReference): void {
+  transaction.set(
+    progressChangeLogRef(progressRef),
+    { resetAt: admin.firestore.FieldValue.serverTimestamp() },
+    { merge: true }
+  );
+}
+
+// Lists the entries of each progress map that were added, changed or removed by a write
+export function diffProgressEntries(
+  before: DocumentData | undefined,
+  after: DocumentData | undefined
+): Partial<Record<ProgressEntryField, string[]>> {
+  const diff: Partial<Record<ProgressEntryField, string[]>> = {};
+  PROGRESS_ENTRY_FIELDS.forEach((field) => {
+    const previous = before?.[field] ?? {};
+    const current = after?.[field] ?? {};
+    const changed = [...new Set([...Object.keys(previous), ...Object.keys(current)])].filter(
+      (entryId) => JSON.stringify(previous[entryId]) !== JSON.stringify(current[entryId])
+    );
+    if (changed.length > 0) diff[field] = changed;
+  });
+  return diff;
+}
+
+// Lists the entries of the change log stamped before the retention window ending at `now`
+export function staleChangeLogEntries(
+  changeLog: ProgressChangeLogData | undefined,
+  now: number
+): Partial<Record<ProgressEntryField, string[]>> {
+  const stale: Partial<Record<ProgressEntryField, string[]>> = {};
+  PROGRESS_ENTRY_FIELDS.forEach((field) => {
+    const entryIds = Object.entries(changeLog?.[field] ?? {})
+      .filter(([, changedAt]) => changedAt.toMillis() < now - CHANGE_LOG_RETENTION_MS)
+      .map(([entryId]) => entryId);
+    if (entryIds.length > 0) stale[field] = entryIds;
+  });
+  return stale;
+}
+
+// Records which entries every progress write touched. The entries are stamped with the commit
+// time of this log write, not the time in the entry (set by the client's clock), so a reader
+// holding the log's read time as cursor sees every later change exactly once.
+export const trackProgressChanges = onDocumentWritten('progress/{userId}', async (event) => {
+  const userId = event.params.userId;
+  const before = event.data?.before.data();
+  const after = event.data?.after.data();
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+  const diff = diffProgressEntries(before, after);
+  const db: Firestore = admin.firestore();
+  const logRef = progressChangeLogRef(db.collection('progress').doc(userId));
+  const logDoc = await logRef.get();
+  const stale = staleChangeLogEntries(
+    logDoc.data() as ProgressChangeLogData | undefined,
+    Date.now()
+  );
+  const changedAt = admin.firestore.FieldValue.serverTimestamp();
+  const update: { [field: string]: admin.firestore.FieldValue | object } = {
+    lastChangedAt: changedAt,
+  };
+  const fieldUpdate = (field: string) =>
+    (update[field] ??= {}) as { [entryId: string]: admin.firestore.FieldValue };
+  Object.entries(stale).forEach(([field, entryIds]) => {
+    entryIds.forEach((entryId) => {
+      fieldUpdate(field)[entryId] = admin.firestore.FieldValue.delete();
+    });
+  });
+  // Entries changed by this write are stamped again rather than pruned
+  Object.entries(diff).forEach(([field, entryIds]) => {
+    entryIds.forEach((entryId) => {
+      fieldUpdate(field)[entryId] = changedAt;
+    });
+  });
+  await logRef.set(update, { merge: true });
+  const count = (entries: Partial<Record<ProgressEntryField, string[]>>) =>
+    Object.values(entries).reduce((total, entryIds) => total + entryIds.length, 0);
+  logger.log('Tracked progress changes', { userId, changed: count(diff), pruned: count(stale) });
+});
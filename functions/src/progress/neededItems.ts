@@ -0,0 +1,235 @@
+import { formatProgress } from './progressUtils.js';
+
+// Server-side version of the Needed Items page (frontend/src/pages/NeededItems.vue and
+// components/neededitems/NeededItem.vue). Only item hand-ins count: 'giveItem' task objectives
+// and hideout station level item requirements. The frontend's neededItemTaskObjectives list
+// (composables/tarkovdata.ts) also holds every objective with an item or marker item ('mark',
+// 'plantItem', 'buildWeapon'), but the page only shows an item for 'giveItem' ones, and those
+// items are used up or kept rather than handed in, so they are left out here.
+
+interface ItemSummary {
+  id: string;
+  name?: string;
+  shortName?: string;
+}
+interface TaskObjective {
+  id: string;
+  type?: string;
+  item?: ItemSummary;
+  count?: number;
+  foundInRaid?: boolean;
+}
+interface Task {
+  id: string;
+  objectives?: TaskObjective[];
+  factionName?: string;
+}
+interface TaskData {
+  tasks?: Task[];
+}
+interface HideoutItemRequirement {
+  id: string;
+  item?: ItemSummary;
+  count: number;
+  foundInRaid?: boolean;
+}
+interface HideoutLevel {
+  id: string;
+  level: number;
+  itemRequirements?: HideoutItemRequirement[];
+}
+interface HideoutStation {
+  id: string;
+  levels?: HideoutLevel[];
+}
+interface HideoutData {
+  hideoutStations?: HideoutStation[];
+}
+interface NeededItemsProgressData {
+  level?: number;
+  gameEdition?: number;
+  pmcFaction?: string;
+  taskCompletions?: { [taskId: string]: { complete?: boolean; failed?: boolean } };
+  taskObjectives?: { [objectiveId: string]: { complete?: boolean; count?: number } };
+  hideoutModules?: { [moduleId: string]: { complete?: boolean } };
+  hideoutParts?: { [partId: string]: { complete?: boolean; count?: number } };
+}
+
+export interface NeededItemSource {
+  type: 'task' | 'hideout';
+  id: string; // Objective ID, or the hideout item requirement (part) ID
+  taskId?: string;
+  objectiveType?: 'giveItem'; // The only task objective type counted
+  stationId?: string;
+  moduleId?: string;
+  level?: number;
+  foundInRaid: boolean;
+  needed: number;
+  collected: number;
+}
+interface NeededItemCount {
+  needed: number;
+  collected: number;
+}
+export interface NeededItem {
+  itemId: string;
+  name?: string;
+  shortName?: string;
+  foundInRaid: NeededItemCount; // Needs that require found in raid items
+  notFoundInRaid: NeededItemCount; // Needs any copy of the item satisfies
+  sources: NeededItemSource[];
+}
+
+// formatProgress applies the faction and game edition rules (tasks of the other faction and
+// their successors are invalid; stash levels and the Cultist Circle included with the edition
+// are built), so anything it reports as complete or invalid is no longer needed
+export const getNeededItems = (
+  progressData: NeededItemsProgressData | undefined | null,
+  userId: string,
+  hideoutData: HideoutData | null | undefined,
+  taskData: TaskData | null | undefined
+): NeededItem[] => {
+  const progress = formatProgress(progressData, userId, hideoutData, taskData);
+  const byId = <T extends { id: string }>(entries: T[]) =>
+    new Map(entries.map((entry) => [entry.id, entry]));
+  const tasksProgress = byId(progress.tasksProgress);
+  const objectivesProgress = byId(progress.taskObjectivesProgress);
+  const modulesProgress = byId(progress.hideoutModulesProgress);
+  const partsProgress = byId(progress.hideoutPartsProgress);
+  const items = new Map<string, NeededItem>();
+  const addSource = (item: ItemSummary, source: NeededItemSource) => {
+    let neededItem = items.get(item.id);
+    if (!neededItem) {
+      neededItem = {
+        itemId: item.id,
+        name: item.name,
+        shortName: item.shortName,
+        foundInRaid: { needed: 0, collected: 0 },
+        notFoundInRaid: { needed: 0, collected: 0 },
+        sources: [],
+      };
+      items.set(item.id, neededItem);
+    }
+    const count = source.foundInRaid ? neededItem.foundInRaid : neededItem.notFoundInRaid;
+    count.needed += source.needed;
+    count.collected += source.collected;
+    neededItem.sources.push(source);
+  };
+  (taskData?.tasks ?? []).forEach((task) => {
+    const taskProgress = tasksProgress.get(task.id);
+    if (taskProgress?.complete || taskProgress?.invalid) return;
+    task.objectives?.forEach((objective) => {
+      if (objective.type !== 'giveItem' || !objective.item?.id) return;
+      const objectiveProgress = objectivesProgress.get(objective.id);
+      if (objectiveProgress?.complete || objectiveProgress?.invalid) return;
+      const needed = objective.count ?? 1;
+      addSource(objective.item, {
+        type: 'task',
+        id: objective.id,
+        taskId: task.id,
+        objectiveType: objective.type,
+        foundInRaid: objective.foundInRaid ?? false,
+        needed,
+        collected: Math.min(objectiveProgress?.count ?? 0, needed),
+      });
+    });
+  });
+  (hideoutData?.hideoutStations ?? []).forEach((station) => {
+    station.levels?.forEach((level) => {
+      if (modulesProgress.get(level.id)?.complete) return;
+      level.itemRequirements?.forEach((requirement) => {
+        if (!requirement.item?.id) return;
+        const partProgress = partsProgress.get(requirement.id);
+        if (partProgress?.complete) return;
+        addSource(requirement.item, {
+          type: 'hideout',
+          id: requirement.id,
+          stationId: station.id,
+          moduleId: level.id,
+          level: level.level,
+          foundInRaid: requirement.foundInRaid ?? false,
+          needed: requirement.count,
+          collected: Math.min(partProgress?.count ?? 0, requirement.count),
+        });
+      });
+    });
+  });
+  return [...items.values()];
+};
+
+export interface TeamNeededItemMember extends Omit<NeededItem, 'itemId' | 'name' | 'shortName'> {
+  userId: string;
+  remaining: number; // Still to collect across both found in raid and other needs
+}
+export interface TeamNeededItem extends Omit<NeededItem, 'sources'> {
+  members: TeamNeededItemMember[];
+}
+// The requester's item preferences for teammates, as on the Needed Items page
+export interface TeamNeededItemsOptions {
+  hideNonFoundInRaid: boolean; // Only count teammates' found in raid task hand-ins
+  hideHideout: boolean; // Leave out teammates' hideout needs
+}
+
+const sumSources = (sources: NeededItemSource[], foundInRaid: boolean): NeededItemCount =>
+  sources
+    .filter((source) => source.foundInRaid === foundInRaid)
+    .reduce(
+      (count, source) => ({
+        needed: count.needed + source.needed,
+        collected: count.collected + source.collected,
+      }),
+      { needed: 0, collected: 0 }
+    );
+
+// Combines each member's needed items into one list per item. The requester's own needs are
+// always kept; the options only filter teammates'.
+export const mergeTeamNeededItems = (
+  members: { userId: string; items: NeededItem[] }[],
+  selfId: string,
+  options: TeamNeededItemsOptions
+): TeamNeededItem[] => {
+  const items = new Map<string, TeamNeededItem>();
+  members.forEach(({ userId, items: memberItems }) => {
+    memberItems.forEach((neededItem) => {
+      const sources =
+        userId === selfId
+          ? neededItem.sources
+          : neededItem.sources.filter(
+              (source) =>
+                !(options.hideHideout && source.type === 'hideout') &&
+                !(options.hideNonFoundInRaid && source.type === 'task' && !source.foundInRaid)
+            );
+      if (sources.length === 0) return;
+      const foundInRaid = sumSources(sources, true);
+      const notFoundInRaid = sumSources(sources, false);
+      let teamItem = items.get(neededItem.itemId);
+      if (!teamItem) {
+        teamItem = {
+          itemId: neededItem.itemId,
+          name: neededItem.name,
+          shortName: neededItem.shortName,
+          foundInRaid: { needed: 0, collected: 0 },
+          notFoundInRaid: { needed: 0, collected: 0 },
+          members: [],
+        };
+        items.set(neededItem.itemId, teamItem);
+      }
+      teamItem.foundInRaid.needed += foundInRaid.needed;
+      teamItem.foundInRaid.collected += foundInRaid.collected;
+      teamItem.notFoundInRaid.needed += notFoundInRaid.needed;
+      teamItem.notFoundInRaid.collected += notFoundInRaid.collected;
+      teamItem.members.push({
+        userId,
+        foundInRaid,
+        notFoundInRaid,
+        remaining:
+          foundInRaid.needed -
+          foundInRaid.collected +
+          notFoundInRaid.needed -
+          notFoundInRaid.collected,
+        sources,
+      });
+    });
+  });
+  return [...items.values()];
+};
@@ -5,12 +5,25 @@ import {
   Firestore,
   DocumentReference,
   DocumentSnapshot,
-  WriteBatch,
+  Transaction,
 } from 'firebase-admin/firestore';
 
 // Update: dataLoaders and progressUtils is now TS, keep .js extension for import
 import { getTaskData, getHideoutData } from '../utils/dataLoaders.js';
-import { formatProgress, updateTaskState } from './progressUtils.js';
+import {
+  formatProgress,
+  formatProgressChanges,
+  buildTaskStateUpdate,
+  buildHideoutModuleUpdate,
+  buildProgressOperationsUpdate,
+  updateTaskState,
+  ProgressOperation,
+} from './progressUtils.js';
+import { actions, ProgressUpdate } from './sharedState.js';
+import { getTaskAvailability } from './taskAvailability.js';
+import { getNeededItems, mergeTeamNeededItems } from './neededItems.js';
+import { progressChangeLogRef, ProgressChangeLogData } from './changeLog.js';
+import { hasPermission, Permission } from '../auth/permissions.js';
 
 // --- Interfaces for Data Structures ---
 
@@ -42,24 +55,24 @@ interface ObjectiveItem {
   count?: number;
   invalid?: boolean;
   failed?: boolean;
+  timestamp?: number;
 }
 
 // Firestore Document Data Interfaces
+// Progress documents use the same shape as the frontend UserState (see ./sharedState.ts)
 interface ProgressDocData {
-  // Define fields based on actual progress document structure
   level?: number;
-  tasks?: { [taskId: string]: TaskProgressData };
-  hideout?: { [moduleId: string]: HideoutProgressData };
-}
-
-interface TaskProgressData {
-  st?: string; // Status
-  obj?: { [objectiveId: string]: number | boolean }; // Objectives
-}
-
-interface HideoutProgressData {
-  level?: number;
-  objectives?: { [objectiveId: string]: boolean };
+  pmcFaction?: string;
+  taskCompletions?: {
+    [taskId: string]: { complete?: boolean; failed?: boolean; timestamp?: number };
+  };
+  taskObjectives?: {
+    [objectiveId: string]: { complete?: boolean; count?: number; timestamp?: number };
+  };
+  hideoutModules?: { [moduleId: string]: { complete?: boolean; timestamp?: number } };
+  hideoutParts?: {
+    [partId: string]: { complete?: boolean; count?: number; timestamp?: number };
+  };
 }
 
 interface SystemDocData {
@@ -68,6 +81,15 @@ interface SystemDocData {
 
 interface UserDocData {
   teamHide?: { [teammateId: string]: boolean };
+  itemsTeamHideAll?: boolean;
+  itemsTeamHideNonFIR?: boolean;
+  itemsTeamHideHideout?: boolean;
+}
+
+interface TeamMembers {
+  memberIds: string[]; // Always includes the requester, first
+  hiddenTeammates: string[]; // Teammates the requester has hidden in the frontend
+  userData?: UserDocData; // The requester's frontend preferences
 }
 
 interface TeamDocData {
@@ -85,19 +107,52 @@ interface ApiTokenData {
 
 interface ApiToken extends ApiTokenData {
   token: string;
+  tokenId: string;
 }
 
 interface AuthenticatedRequest extends Request {
   apiToken?: ApiToken;
 }
 
-// --- Helper Type Check Functions ---
-function isValidTaskStatus(status: unknown): status is string {
-  return (
-    typeof status === 'string' &&
-    (status === 'uncompleted' || status === 'completed' || status === 'failed')
-  );
-}
+// Write scope needed by each PATCH /progress operation type
+const WRITE_SCOPES: Permission[] = ['WT', 'WH', 'WL'];
+const OPERATION_SCOPES: { [operationType: string]: Permission } = {
+  task: 'WT',
+  objective: 'WT',
+  hideoutModule: 'WH',
+  hideoutPart: 'WH',
+  level: 'WL',
+  faction: 'WL',
+  gameEdition: 'WL',
+  displayName: 'WL',
+};
+
+// Finds the requester's team members, or just the requester when they are not in a team
+const getTeamMembers = async (db: Firestore, ownerId: string): Promise<TeamMembers> => {
+  const [systemDoc, userDoc] = await Promise.all([
+    db.collection('system').doc(ownerId).get() as Promise<DocumentSnapshot<SystemDocData>>,
+    db.collection('user').doc(ownerId).get() as Promise<DocumentSnapshot<UserDocData>>,
+  ]);
+  const teamId = systemDoc.data()?.team;
+  const hiddenTeammatesMap = userDoc.data()?.teamHide ?? {};
+  let memberIds: string[] = [ownerId];
+  if (teamId) {
+    const teamDoc = (await db
+      .collection('team')
+      .doc(teamId)
+      .get()) as DocumentSnapshot<TeamDocData>;
+    if (teamDoc.exists) {
+      memberIds = [...new Set([ownerId, ...(teamDoc.data()?.members ?? [])])];
+    } else {
+      functions.logger.warn(`Team document ${teamId} not found for user ${ownerId}`);
+    }
+  }
+  return {
+    memberIds,
+    hiddenTeammates: memberIds.filter((id) => id !== ownerId && hiddenTeammatesMap[id]),
+    userData: userDoc.data(),
+  };
+};
 
 // --- Handler Functions ---
 
@@ -133,7 +188,7 @@ function isValidTaskStatus(status: unknown): status is string {
  */
 const getPlayerProgress = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const ownerId = req.apiToken?.owner;
-  if (ownerId && req.apiToken?.permissions?.includes('GP')) {
+  if (ownerId && hasPermission(req.apiToken, 'GP')) {
     const db: Firestore = admin.firestore();
     const progressRef: DocumentReference<ProgressDocData> = db
       .collection('progress')
@@ -186,6 +241,125 @@ const getPlayerProgress = async (req: AuthenticatedRequest, res: Response): Prom
   }
 };
 
+/**
+ * @openapi
+ * /progress/changes:
+ *   get:
+ *     summary: "Returns progress entries changed since a cursor"
+ *     tags:
+ *       - "Progress"
+ *     description: "Returns only the task, objective, hideout module and hideout part entries
+ *       modified after `since`, the IDs of entries removed since then, and a cursor to pass on
+ *       the next call. Level, edition, faction and display name are always included. When the
+ *       progress was replaced after `since` (a wipe reset or snapshot restore), `meta.reset` is
+ *       true and every entry is returned; clients must then discard their local copy. The same
+ *       happens for cursors older than 30 days, since removals are only tracked that long. Derived
+ *       state (edition stash levels, invalidated tasks) is only available from `GET /progress`,
+ *       so clients should fetch the full progress once and then poll this endpoint."
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         required: false
+ *         description: "Cursor in milliseconds since the epoch, as returned in `meta.cursor`.
+ *           Omit or pass 0 to receive every entry."
+ *         schema:
+ *           $ref: "#/components/schemas/ProgressCursor"
+ *     responses:
+ *       200:
+ *         description: "Changed progress entries retrieved successfully."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: "#/components/schemas/Progress"
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     self:
+ *                       type: string
+ *                       description: "The user ID of the requester."
+ *                     since:
+ *                       type: integer
+ *                       description: "The cursor the changes were computed from."
+ *                     cursor:
+ *                       type: integer
+ *                       description: "The cursor to pass as `since` on the next call. It is
+ *                         server time, so it does not depend on the clocks of the devices that
+ *                         wrote the progress."
+ *                     reset:
+ *                       type: boolean
+ *                       description: "Whether the progress was replaced after `since`, or
+ *                         `since` is older than 30 days, in which case `data` holds every entry."
+ *                     removed:
+ *                       type: object
+ *                       description: "IDs of the entries removed after `since`, per list."
+ *                       properties:
+ *                         tasksProgress:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         taskObjectivesProgress:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         hideoutModulesProgress:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                         hideoutPartsProgress:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *       400:
+ *         $ref: "#/components/responses/ValidationError"
+ *       401:
+ *         description: "Unauthorized. Invalid token or missing 'GP' permission."
+ *       500:
+ *         description: "Internal server error."
+ */
+const getProgressChanges = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'GP')) {
+    // Checked against the ProgressCursor schema by validateRequest
+    const since = req.query.since === undefined ? 0 : Number(req.query.since);
+    const db: Firestore = admin.firestore();
+    const progressRef: DocumentReference<ProgressDocData> = db
+      .collection('progress')
+      .doc(ownerId) as DocumentReference<ProgressDocData>;
+    try {
+      // Read together so the change log matches the progress it describes
+      const [progressDoc, changeLogDoc] = await db.getAll(
+        progressRef,
+        progressChangeLogRef(progressRef)
+      );
+      const { changes, removed, reset, cursor } = formatProgressChanges(
+        progressDoc.data() as ProgressDocData | undefined,
+        ownerId,
+        since,
+        changeLogDoc.data() as ProgressChangeLogData | undefined,
+        changeLogDoc.readTime.toMillis()
+      );
+      res.status(200).json({
+        data: changes,
+        meta: { self: ownerId, since, cursor, reset, removed },
+      });
+    } catch (error: unknown) {
+      functions.logger.error('Error fetching progress changes:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+        since,
+      });
+      res.status(500).send({ error: 'Failed to retrieve progress changes.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
 /**
  * @openapi
  * /team/progress:
@@ -209,7 +383,7 @@ const getPlayerProgress = async (req: AuthenticatedRequest, res: Response): Prom
  */
 const getTeamProgress = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const ownerId = req.apiToken?.owner;
-  if (ownerId && req.apiToken?.permissions?.includes('TP')) {
+  if (ownerId && hasPermission(req.apiToken, 'TP')) {
     const db: Firestore = admin.firestore();
     try {
       // Get the requesters meta documents, hideout data, and task data concurrently
@@ -311,6 +485,314 @@ const getTeamProgress = async (req: AuthenticatedRequest, res: Response): Promis
   }
 };
 
+/**
+ * @openapi
+ * /progress/tasks/available:
+ *   get:
+ *     summary: "Returns which tasks the player can currently start"
+ *     tags:
+ *       - "Progress"
+ *     description: "Applies the same rules as the TarkovTracker task list: a task is available
+ *       when it is not complete and its failed requirements, minimum player level, trader levels,
+ *       prerequisite tasks and faction allow it. Every reason a locked task is blocked is listed."
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: "Task availability retrieved successfully."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: "#/components/schemas/TaskAvailability"
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     self:
+ *                       type: string
+ *                       description: "The user ID of the requester."
+ *       401:
+ *         description: "Unauthorized. Invalid token or missing 'GP' permission."
+ *       500:
+ *         description: "Internal server error."
+ */
+const getAvailableTasks = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'GP')) {
+    const db: Firestore = admin.firestore();
+    try {
+      const [progressDoc, taskData] = await Promise.all([
+        db.collection('progress').doc(ownerId).get() as Promise<DocumentSnapshot<ProgressDocData>>,
+        getTaskData(),
+      ]);
+      if (taskData === null) {
+        functions.logger.error('Failed to load task data for available tasks', {
+          userId: ownerId,
+        });
+        res.status(500).send({ error: 'Failed to load essential game data.' });
+        return;
+      }
+      res.status(200).json({
+        data: { userId: ownerId, ...getTaskAvailability(progressDoc.data(), taskData) },
+        meta: { self: ownerId },
+      });
+    } catch (error: unknown) {
+      functions.logger.error('Error fetching available tasks:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+      });
+      res.status(500).send({ error: 'Failed to retrieve available tasks.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
+/**
+ * @openapi
+ * /team/tasks/available:
+ *   get:
+ *     summary: "Returns which tasks each team member can currently start"
+ *     tags:
+ *       - "Progress"
+ *     description: "Same as `GET /progress/tasks/available`, for every member of the team. Members
+ *       without a progress document are left out. Teammates the requester has hidden are still
+ *       returned and listed in `meta.hiddenTeammates`, as in `GET /team/progress`."
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: "Team task availability retrieved successfully."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: "#/components/schemas/TaskAvailability"
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     self:
+ *                       type: string
+ *                       description: "The user ID of the requester."
+ *                     hiddenTeammates:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: "User IDs of teammates hidden by the requester."
+ *       401:
+ *         description: "Unauthorized. Invalid token or missing 'TP' permission."
+ *       500:
+ *         description: "Internal server error."
+ */
+const getTeamAvailableTasks = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'TP')) {
+    const db: Firestore = admin.firestore();
+    try {
+      const [{ memberIds, hiddenTeammates }, taskData] = await Promise.all([
+        getTeamMembers(db, ownerId),
+        getTaskData(),
+      ]);
+      if (taskData === null) {
+        functions.logger.error('Failed to load task data for team available tasks', {
+          userId: ownerId,
+        });
+        res.status(500).send({ error: 'Failed to load essential game data for team.' });
+        return;
+      }
+      const progressDocs = (await db.getAll(
+        ...memberIds.map((memberId) => db.collection('progress').doc(memberId))
+      )) as DocumentSnapshot<ProgressDocData>[];
+      const data = progressDocs
+        .filter((memberDoc) => memberDoc.exists)
+        .map((memberDoc) => ({
+          userId: memberDoc.id,
+          ...getTaskAvailability(memberDoc.data(), taskData),
+        }));
+      res.status(200).json({ data, meta: { self: ownerId, hiddenTeammates } });
+    } catch (error: unknown) {
+      functions.logger.error('Error fetching team available tasks:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+      });
+      res.status(500).send({ error: 'Failed to retrieve team available tasks.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
+/**
+ * @openapi
+ * /progress/items/needed:
+ *   get:
+ *     summary: "Returns the items the player still needs to hand in"
+ *     tags:
+ *       - "Progress"
+ *     description: "Aggregates the item hand-ins of unfinished tasks ('giveItem' objectives) and
+ *       unbuilt hideout station levels, as on the TarkovTracker Needed Items page. Task
+ *       objectives that only use an item ('mark', 'plantItem', 'buildWeapon') are not counted,
+ *       although the site lists them among a task's needed objectives. Tasks of the other
+ *       faction and hideout levels included with the player's game edition are left out.
+ *       Counts are split between found in raid and non found in raid needs."
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: "Needed items retrieved successfully."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: "#/components/schemas/NeededItem"
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     self:
+ *                       type: string
+ *                       description: "The user ID of the requester."
+ *       401:
+ *         description: "Unauthorized. Invalid token or missing 'GP' permission."
+ *       500:
+ *         description: "Internal server error."
+ */
+const getPlayerNeededItems = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'GP')) {
+    const db: Firestore = admin.firestore();
+    try {
+      const [progressDoc, hideoutData, taskData] = await Promise.all([
+        db.collection('progress').doc(ownerId).get() as Promise<DocumentSnapshot<ProgressDocData>>,
+        getHideoutData(),
+        getTaskData(),
+      ]);
+      if (hideoutData === null || taskData === null) {
+        functions.logger.error('Failed to load essential Tarkov data (tasks or hideout)', {
+          userId: ownerId,
+          hideoutLoaded: hideoutData !== null,
+          tasksLoaded: taskData !== null,
+        });
+        res.status(500).send({ error: 'Failed to load essential game data.' });
+        return;
+      }
+      res.status(200).json({
+        data: getNeededItems(progressDoc.data(), ownerId, hideoutData, taskData),
+        meta: { self: ownerId },
+      });
+    } catch (error: unknown) {
+      functions.logger.error('Error fetching needed items:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+      });
+      res.status(500).send({ error: 'Failed to retrieve needed items.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
+/**
+ * @openapi
+ * /team/items/needed:
+ *   get:
+ *     summary: "Returns the items still needed by the team, per member"
+ *     tags:
+ *       - "Progress"
+ *     description: "Combines `GET /progress/items/needed` for the requester and every teammate
+ *       they have not hidden. The requester's Needed Items preferences apply to teammates: hiding
+ *       teammates' non found in raid items leaves out their non found in raid task hand-ins,
+ *       hiding teammates' hideout items leaves out their hideout needs, and hiding all teammates'
+ *       items leaves out both."
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: "Team needed items retrieved successfully."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: "#/components/schemas/TeamNeededItem"
+ *                 meta:
+ *                   type: object
+ *                   properties:
+ *                     self:
+ *                       type: string
+ *                       description: "The user ID of the requester."
+ *                     hiddenTeammates:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: "User IDs of teammates hidden by the requester, whose needs
+ *                         are not included."
+ *       401:
+ *         description: "Unauthorized. Invalid token or missing 'TP' permission."
+ *       500:
+ *         description: "Internal server error."
+ */
+const getTeamNeededItems = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'TP')) {
+    const db: Firestore = admin.firestore();
+    try {
+      const [{ memberIds, hiddenTeammates, userData }, hideoutData, taskData] = await Promise.all([
+        getTeamMembers(db, ownerId),
+        getHideoutData(),
+        getTaskData(),
+      ]);
+      if (hideoutData === null || taskData === null) {
+        functions.logger.error(
+          'Failed to load essential Tarkov data (tasks or hideout) for team needed items',
+          {
+            userId: ownerId,
+            hideoutLoaded: hideoutData !== null,
+            tasksLoaded: taskData !== null,
+          }
+        );
+        res.status(500).send({ error: 'Failed to load essential game data for team.' });
+        return;
+      }
+      const visibleMemberIds = memberIds.filter((id) => !hiddenTeammates.includes(id));
+      const progressDocs = (await db.getAll(
+        ...visibleMemberIds.map((memberId) => db.collection('progress').doc(memberId))
+      )) as DocumentSnapshot<ProgressDocData>[];
+      const members = progressDocs
+        .filter((memberDoc) => memberDoc.exists)
+        .map((memberDoc) => ({
+          userId: memberDoc.id,
+          items: getNeededItems(memberDoc.data(), memberDoc.id, hideoutData, taskData),
+        }));
+      const data = mergeTeamNeededItems(members, ownerId, {
+        hideNonFoundInRaid: Boolean(userData?.itemsTeamHideAll || userData?.itemsTeamHideNonFIR),
+        hideHideout: Boolean(userData?.itemsTeamHideAll || userData?.itemsTeamHideHideout),
+      });
+      res.status(200).json({ data, meta: { self: ownerId, hiddenTeammates } });
+    } catch (error: unknown) {
+      functions.logger.error('Error fetching team needed items:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+      });
+      res.status(500).send({ error: 'Failed to retrieve team needed items.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
 /**
  * @openapi
  * /progress/level/{levelValue}:
@@ -326,32 +808,28 @@ const getTeamProgress = async (req: AuthenticatedRequest, res: Response): Promis
  *         description: "Player's new level"
  *         required: true
  *         schema:
- *           type: "integer"
- *           minimum: 1
+ *           $ref: "#/components/schemas/PlayerLevel"
  *     responses:
  *       200:
  *         description: "Player's level was updated successfully"
  *       400:
- *         description: "Invalid level value provided."
+ *         $ref: "#/components/responses/ValidationError"
  *       401:
- *         description: "Unauthorized. Invalid token or missing 'WP' permission."
+ *         description: "Unauthorized. Invalid token or missing 'WL' or 'WP' permission."
  *       500:
  *         description: "Internal server error."
  */
 const setPlayerLevel = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const ownerId = req.apiToken?.owner;
-  if (ownerId && req.apiToken?.permissions?.includes('WP')) {
+  if (ownerId && hasPermission(req.apiToken, 'WL')) {
     const db: Firestore = admin.firestore();
     const progressRef: DocumentReference<ProgressDocData> = db
       .collection('progress')
       .doc(ownerId) as DocumentReference<ProgressDocData>;
-    const levelValue = parseInt(req.params.levelValue, 10);
-    if (isNaN(levelValue) || levelValue < 1) {
-      res.status(400).send({ error: 'Invalid level value provided.' });
-      return;
-    }
+    // Checked against the PlayerLevel schema by validateRequest
+    const levelValue = Number(req.params.levelValue);
     try {
-      await progressRef.set({ level: levelValue }, { merge: true });
+      await progressRef.set(actions.setLevel(levelValue), { merge: true });
       res.status(200).send({ message: 'Level updated successfully.' });
     } catch (error: unknown) {
       functions.logger.error('Error setting player level:', {
@@ -389,71 +867,28 @@ const setPlayerLevel = async (req: AuthenticatedRequest, res: Response): Promise
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - state
- *             properties:
- *               state:
- *                 type: string
- *                 description: "The new state of the task."
- *                 enum: [uncompleted, completed, failed] # Matches the old spec and implementation logic
+ *             $ref: "#/components/schemas/TaskStateUpdate"
  *     responses:
  *       200:
  *         description: "The task was updated successfully."
  *       400:
- *         description: "Invalid request parameters (e.g., bad taskId or state)."
+ *         $ref: "#/components/responses/ValidationError"
  *       401:
- *         description: "Unauthorized to update progress (missing 'WP' permission)."
+ *         description: "Unauthorized to update progress (missing 'WT' or 'WP' permission)."
  *       500:
  *         description: "Internal server error."
  */
 const updateSingleTask = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const ownerId = req.apiToken?.owner;
-  if (ownerId && req.apiToken?.permissions?.includes('WP')) {
-    const db: Firestore = admin.firestore();
-    const progressRef: DocumentReference<ProgressDocData> = db
-      .collection('progress')
-      .doc(ownerId) as DocumentReference<ProgressDocData>;
+  if (ownerId && hasPermission(req.apiToken, 'WT')) {
     const taskId: string = req.params.taskId;
-    const state = req.body.state;
-
-    if (!taskId) {
-      res.status(400).send({ error: 'Task ID is required.' });
-      return;
-    }
-    // Validate the string state
-    if (!isValidTaskStatus(state)) {
-      res.status(400).send({
-        error: "Invalid state provided. Should be 'completed', 'failed', or 'uncompleted'.",
-      });
-      return;
-    }
+    // Checked against the TaskStateUpdate schema by validateRequest
+    const state: string = req.body.state;
     try {
-      // Fetch existing task data to preserve objectives if needed
-      const progressDoc = await progressRef.get();
-      const existingTaskData = progressDoc.data()?.tasks?.[taskId] ?? {}; // Get existing or empty object
-      const updateData: { [key: `tasks.${string}`]: TaskProgressData } = {};
-      // Use dot notation for specific field update
-      updateData[`tasks.${taskId}`] = {
-        ...existingTaskData, // Preserve existing fields (like objectives)
-        st: state, // Use the string state directly
-      };
-      await progressRef.update(updateData);
-      // Implement task dependency updates using updateTaskState
-      try {
-        const { getTaskData } = await import('../utils/dataLoaders.js');
-        const taskData = await getTaskData();
-        // Use the top-level imported updateTaskState instead of dynamic import
-        await updateTaskState(taskId, state, ownerId, taskData);
-      } catch (error) {
-        // Log error but don't fail the request if dependency updates fail
-        functions.logger.error('Error updating task dependencies:', {
-          error: error instanceof Error ? error.message : String(error),
-          userId: ownerId,
-          taskId,
-          state,
-        });
-      }
+      // Task data is needed to apply the same objective/alternative side effects as the web app.
+      // Writes check the data version first so they never use a quest graph from before a patch.
+      const taskData = await getTaskData({ revalidate: true });
+      await updateTaskState(taskId, state, ownerId, taskData);
       res.status(200).send({ message: 'Task updated successfully.' });
     } catch (error: unknown) {
       functions.logger.error('Error updating single task:', {
@@ -483,94 +918,38 @@ const updateSingleTask = async (req: AuthenticatedRequest, res: Response): Promi
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             description: "Object where keys are task IDs and values are the new status (0-3)"
- *             additionalProperties:
- *               type: integer
- *               enum: [0, 1, 2, 3]
- *             example:
- *               {"task1": 2, "task5": 1}
+ *             $ref: "#/components/schemas/MultipleTasksUpdate"
  *     responses:
  *       200:
  *         description: "Tasks updated successfully."
  *       400:
- *         description: "Invalid request body format or invalid status values."
+ *         $ref: "#/components/responses/ValidationError"
  *       401:
- *         description: "Unauthorized. Invalid token or missing 'WP' permission."
+ *         description: "Unauthorized. Invalid token or missing 'WT' or 'WP' permission."
  *       500:
  *         description: "Internal server error during batch update."
  */
 const updateMultipleTasks = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const ownerId = req.apiToken?.owner;
-  if (ownerId && req.apiToken?.permissions?.includes('WP')) {
+  if (ownerId && hasPermission(req.apiToken, 'WT')) {
     const db: Firestore = admin.firestore();
     const progressRef: DocumentReference<ProgressDocData> = db
       .collection('progress')
       .doc(ownerId) as DocumentReference<ProgressDocData>;
+    // Checked against the MultipleTasksUpdate schema by validateRequest
     const taskUpdates: { [taskId: string]: string } = req.body;
-    if (
-      typeof taskUpdates !== 'object' ||
-      taskUpdates === null ||
-      Object.keys(taskUpdates).length === 0
-    ) {
-      res.status(400).send({ error: 'Invalid request body format.' });
-      return;
-    }
-    const batch: WriteBatch = db.batch();
-    let invalidStatusFound = false;
-    const updatePromises: Promise<void>[] = [];
+    let progressUpdate: ProgressUpdate = {};
     try {
-      // Fetch existing progress data once
-      const progressDoc = await progressRef.get();
-      const existingTasksData = progressDoc.data()?.tasks ?? {};
-      for (const taskId in taskUpdates) {
-        if (Object.prototype.hasOwnProperty.call(taskUpdates, taskId)) {
-          const status = taskUpdates[taskId];
-          if (!isValidTaskStatus(status)) {
-            invalidStatusFound = true;
-            functions.logger.warn('Invalid status found in batch update', {
-              userId: ownerId,
-              taskId: taskId,
-              status: status,
-            });
-            break;
-          }
-          const existingTaskData = existingTasksData[taskId] ?? {};
-          // Prepare update data for this specific task using dot notation
-          const updateData: { [key: `tasks.${string}`]: TaskProgressData } = {};
-          updateData[`tasks.${taskId}`] = {
-            ...existingTaskData, // Preserve existing fields
-            st: status,
-          };
-          // Add update operation to the batch
-          batch.update(progressRef, updateData);
-          // Collect task updates for dependency checks
-          updatePromises.push(
-            (async () => {
-              try {
-                const { getTaskData } = await import('../utils/dataLoaders.js');
-                const taskData = await getTaskData();
-                await updateTaskState(taskId, status, ownerId, taskData);
-              } catch (error) {
-                functions.logger.error('Error updating task dependencies in batch:', {
-                  error: error instanceof Error ? error.message : String(error),
-                  userId: ownerId,
-                  taskId,
-                  status,
-                });
-              }
-            })()
-          );
-        }
-      }
-      if (invalidStatusFound) {
-        res.status(400).send({ error: 'Invalid status value found in batch update.' });
-        return;
+      const taskData = await getTaskData({ revalidate: true });
+      for (const [taskId, status] of Object.entries(taskUpdates)) {
+        // Later tasks in the request win if their side effects touch the same fields
+        progressUpdate = {
+          ...progressUpdate,
+          ...buildTaskStateUpdate(taskId, status, taskData),
+        };
       }
-      // Commit the batch write
-      await batch.commit();
-      // Process task dependency updates
-      await Promise.all(updatePromises);
+      // Write every task change in a single update
+      await progressRef.update(progressUpdate);
       res.status(200).send({ message: 'Tasks updated successfully.' });
     } catch (error: unknown) {
       functions.logger.error('Error updating multiple tasks:', {
@@ -607,67 +986,51 @@ const updateMultipleTasks = async (req: AuthenticatedRequest, res: Response): Pr
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             properties:
- *               state:
- *                 type: string
- *                 description: "The new state of the task objective."
- *                 enum: [completed, uncompleted]
- *                 nullable: true
- *               count:
- *                 type: integer
- *                 description: "The number of items or completions toward the objective's goal."
- *                 minimum: 0
- *                 nullable: true
+ *             $ref: "#/components/schemas/TaskObjectiveUpdate"
  *     responses:
  *       200:
  *         description: "The objective was updated successfully."
  *       400:
- *         description: "Invalid request parameters (e.g., bad objectiveId, state, or count)."
+ *         $ref: "#/components/responses/ValidationError"
  *       401:
- *         description: "Unauthorized to update progress (missing 'WP' permission)."
+ *         description: "Unauthorized to update progress (missing 'WT' or 'WP' permission)."
  *       500:
  *         description: "Internal server error."
  */
 const updateTaskObjective = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const ownerId = req.apiToken?.owner;
-  if (ownerId && req.apiToken?.permissions?.includes('WP')) {
+  if (ownerId && hasPermission(req.apiToken, 'WT')) {
     const db: Firestore = admin.firestore();
     const progressRef: DocumentReference<ProgressDocData> = db
       .collection('progress')
       .doc(ownerId) as DocumentReference<ProgressDocData>;
     const objectiveId: string = req.params.objectiveId;
-    const status = req.body.status; // Can be boolean or number
-    if (!objectiveId || !objectiveId.includes('-')) {
-      res.status(400).send({ error: 'Invalid objective ID format.' });
-      return;
-    }
-    if (typeof status !== 'boolean' && typeof status !== 'number') {
-      res.status(400).send({ error: 'Invalid status value.' });
-      return;
-    }
-    const [taskId, objIndex] = objectiveId.split('-');
-    if (!taskId || !objIndex) {
-      res.status(400).send({ error: 'Malformed objective ID.' });
+    // Checked against the TaskObjectiveUpdate schema by validateRequest; both may still be null
+    const { state, count } = req.body;
+    if (state == null && count == null) {
+      res.status(400).send({ error: "Provide at least one of 'state' or 'count'." });
       return;
     }
     try {
-      // Prepare update using dot notation for nested map field
-      const updatePath = `tasks.${taskId}.obj.${objIndex}`;
-      const updateData = { [updatePath]: status };
-      // Use update for nested field
-      await progressRef.update(updateData);
-      // TODO: Optionally re-evaluate task status based on objective completion
+      let progressUpdate: ProgressUpdate = {};
+      if (count != null) {
+        progressUpdate = { ...progressUpdate, ...actions.setObjectiveCount(objectiveId, count) };
+      }
+      if (state === 'completed') {
+        progressUpdate = { ...progressUpdate, ...actions.setTaskObjectiveComplete(objectiveId) };
+      } else if (state === 'uncompleted') {
+        progressUpdate = { ...progressUpdate, ...actions.setTaskObjectiveUncomplete(objectiveId) };
+      }
+      await progressRef.update(progressUpdate);
       res.status(200).send({ message: 'Task objective updated successfully.' });
     } catch (error: unknown) {
       functions.logger.error('Error updating task objective:', {
         error: error instanceof Error ? error.message : String(error),
         userId: ownerId,
         objectiveId: objectiveId,
-        status: status,
+        state,
+        count,
       });
-      // Firestore update might fail if the path doesn't exist (e.g., task doesn't exist)
-      // Consider checking if task exists first or handle specific errors
       res.status(500).send({ error: 'Failed to update task objective.' });
     }
   } else {
@@ -675,13 +1038,285 @@ const updateTaskObjective = async (req: AuthenticatedRequest, res: Response): Pr
   }
 };
 
+/**
+ * @openapi
+ * /progress/hideout/module/{moduleId}:
+ *   post:
+ *     summary: "Mark a hideout module as built or not built."
+ *     tags:
+ *       - "Progress"
+ *     description: "Sets the state of a hideout module (a hideout station level). Building a module
+ *       also marks all of its item requirements as complete, and un-building it marks them as
+ *       uncompleted, the same way the TarkovTracker web app does."
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: moduleId
+ *         required: true
+ *         description: "The ID of the hideout station level from the tarkov.dev API."
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       description: "The new state for the hideout module."
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/HideoutModuleUpdate"
+ *     responses:
+ *       200:
+ *         description: "The hideout module was updated successfully."
+ *       400:
+ *         $ref: "#/components/responses/ValidationError"
+ *       401:
+ *         description: "Unauthorized to update progress (missing 'WH' or 'WP' permission)."
+ *       500:
+ *         description: "Internal server error."
+ */
+const updateHideoutModule = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'WH')) {
+    const db: Firestore = admin.firestore();
+    const progressRef: DocumentReference<ProgressDocData> = db
+      .collection('progress')
+      .doc(ownerId) as DocumentReference<ProgressDocData>;
+    const moduleId: string = req.params.moduleId;
+    // Checked against the HideoutModuleUpdate schema by validateRequest
+    const state: string = req.body.state;
+    try {
+      // Building or un-building a module also updates its item requirements
+      const hideoutData: HideoutData | null = await getHideoutData({ revalidate: true });
+      await progressRef.update(
+        buildHideoutModuleUpdate(moduleId, state === 'completed', hideoutData)
+      );
+      res.status(200).send({ message: 'Hideout module updated successfully.' });
+    } catch (error: unknown) {
+      functions.logger.error('Error updating hideout module:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+        moduleId,
+        state,
+      });
+      res.status(500).send({ error: 'Failed to update hideout module.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
+/**
+ * @openapi
+ * /progress/hideout/part/{partId}:
+ *   post:
+ *     summary: "Update progress of a hideout module item requirement."
+ *     tags:
+ *       - "Progress"
+ *     description: "Update the collected count and/or completion of an item required to build a
+ *       hideout module."
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: partId
+ *         required: true
+ *         description: "The ID of the hideout station level item requirement from the tarkov.dev API."
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       description: "The hideout part properties to update. Provide at least one."
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/HideoutPartUpdate"
+ *     responses:
+ *       200:
+ *         description: "The hideout part was updated successfully."
+ *       400:
+ *         $ref: "#/components/responses/ValidationError"
+ *       401:
+ *         description: "Unauthorized to update progress (missing 'WH' or 'WP' permission)."
+ *       500:
+ *         description: "Internal server error."
+ */
+const updateHideoutPart = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'WH')) {
+    const db: Firestore = admin.firestore();
+    const progressRef: DocumentReference<ProgressDocData> = db
+      .collection('progress')
+      .doc(ownerId) as DocumentReference<ProgressDocData>;
+    const partId: string = req.params.partId;
+    // Checked against the HideoutPartUpdate schema by validateRequest, which allows other keys
+    const { count, complete } = req.body;
+    if (count === undefined && complete === undefined) {
+      res.status(400).send({ error: "Provide at least one of 'count' or 'complete'." });
+      return;
+    }
+    try {
+      let progressUpdate: ProgressUpdate = {};
+      if (count !== undefined) {
+        progressUpdate = { ...progressUpdate, ...actions.setHideoutPartCount(partId, count) };
+      }
+      if (complete === true) {
+        progressUpdate = { ...progressUpdate, ...actions.setHideoutPartComplete(partId) };
+      } else if (complete === false) {
+        progressUpdate = { ...progressUpdate, ...actions.setHideoutPartUncomplete(partId) };
+      }
+      await progressRef.update(progressUpdate);
+      res.status(200).send({ message: 'Hideout part updated successfully.' });
+    } catch (error: unknown) {
+      functions.logger.error('Error updating hideout part:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+        partId,
+        count,
+        complete,
+      });
+      res.status(500).send({ error: 'Failed to update hideout part.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
+/**
+ * @openapi
+ * /progress:
+ *   patch:
+ *     summary: "Apply a batch of mixed progress operations atomically."
+ *     tags:
+ *       - "Progress"
+ *     description: "Applies an ordered list of operations in a single transaction. Either every
+ *       operation is applied or none is: if any operation is invalid the request is rejected
+ *       with a 400 and nothing is written. Operations are applied in order, so a later operation
+ *       wins where two touch the same field. Task and hideout module operations have the same
+ *       side effects as their single-item endpoints."
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: "#/components/schemas/ProgressBatch"
+ *           example:
+ *             operations:
+ *               - type: task
+ *                 id: "5936d90786f7742b1420ba5b"
+ *                 state: completed
+ *               - type: objective
+ *                 id: "5968929e86f7740d121082d3"
+ *                 count: 3
+ *               - type: level
+ *                 value: 25
+ *     responses:
+ *       200:
+ *         description: "All operations were applied."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/ProgressBatchResult"
+ *       400:
+ *         description: "The body does not match the ProgressBatch schema (see ValidationError), or
+ *           at least one operation is invalid. Nothing was applied; `results` lists the error for
+ *           each invalid operation."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: "#/components/schemas/ProgressBatchResult"
+ *       401:
+ *         description: "Unauthorized to update progress. Every operation needs its own write
+ *           scope ('WT' for task and objective, 'WH' for hideout, 'WL' for level, faction, game
+ *           edition and display name) or 'WP'; missingPermissions lists the scopes lacking."
+ *       404:
+ *         description: "The user has no progress document yet. Nothing was applied."
+ *       500:
+ *         description: "Internal server error. Nothing was applied."
+ */
+const updateProgressBatch = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && WRITE_SCOPES.some((scope) => hasPermission(req.apiToken, scope))) {
+    const db: Firestore = admin.firestore();
+    const progressRef: DocumentReference<ProgressDocData> = db
+      .collection('progress')
+      .doc(ownerId) as DocumentReference<ProgressDocData>;
+    // Checked against the ProgressBatch schema by validateRequest
+    const operations: ProgressOperation[] = req.body.operations;
+    // Unknown operation types are left for validation to report
+    const missingPermissions = [
+      ...new Set(
+        operations
+          .map((operation) => String(operation?.type))
+          .filter((type) => Object.hasOwn(OPERATION_SCOPES, type))
+          .map((type) => OPERATION_SCOPES[type])
+          .filter((scope) => !hasPermission(req.apiToken, scope))
+      ),
+    ];
+    if (missingPermissions.length > 0) {
+      res.status(401).send({
+        error: 'Unauthorized or insufficient permissions.',
+        missingPermissions,
+      });
+      return;
+    }
+    try {
+      const [taskData, hideoutData] = await Promise.all([
+        getTaskData({ revalidate: true }),
+        getHideoutData({ revalidate: true }),
+      ]);
+      const { update, results, valid } = buildProgressOperationsUpdate(
+        operations,
+        taskData,
+        hideoutData
+      );
+      if (!valid) {
+        res.status(400).send({
+          error: 'One or more operations are invalid. No changes were applied.',
+          results,
+        });
+        return;
+      }
+      // The operations are written together in one transaction, so they are applied together
+      // or not at all
+      const found = await db.runTransaction(async (transaction: Transaction) => {
+        const progressDoc = await transaction.get(progressRef);
+        if (!progressDoc.exists) return false;
+        transaction.update(progressRef, update);
+        return true;
+      });
+      if (!found) {
+        res.status(404).send({ error: 'No progress found for this user. Nothing was applied.' });
+        return;
+      }
+      res.status(200).send({ message: 'Progress updated successfully.', results });
+    } catch (error: unknown) {
+      functions.logger.error('Error applying progress batch:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+        operations: operations.length,
+      });
+      res.status(500).send({ error: 'Failed to apply progress operations.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
 export default {
   getPlayerProgress,
+  getProgressChanges,
   getTeamProgress,
+  getAvailableTasks,
+  getTeamAvailableTasks,
+  getPlayerNeededItems,
+  getTeamNeededItems,
   setPlayerLevel,
   updateSingleTask,
   updateMultipleTasks,
   updateTaskObjective,
-  // updateHideoutModule, // Keep commented out if not implemented
-  // updateHideoutObjective, // Keep commented out if not implemented
+  updateHideoutModule,
+  updateHideoutPart,
+  updateProgressBatch,
 };
@@ -1,6 +1,12 @@
 import functions from 'firebase-functions';
 import admin from 'firebase-admin';
-import { Firestore, DocumentReference, FieldValue } from 'firebase-admin/firestore';
+import { Firestore, DocumentReference } from 'firebase-admin/firestore';
+import { actions, PMCFaction, ProgressUpdate } from './sharedState.js';
+import {
+  CHANGE_LOG_RETENTION_MS,
+  type ProgressChangeLogData,
+  type ProgressEntryField,
+} from './changeLog.js';
 const STASH_STATION_ID = '5d484fc0654e76006657e0ab'; // Stash ID
 const CULTIST_CIRCLE_STATION_ID = '667298e75ea6b4493c08f266'; // Cultist Circle ID
 // Interfaces for Data Structures
@@ -11,15 +17,17 @@ interface ObjectiveItem {
   count?: number;
   invalid?: boolean;
   failed?: boolean;
+  timestamp?: number;
 }
 // Raw Progress Data (from Firestore or initial processing)
 interface RawObjectiveData {
   [key: string]: {
     complete?: boolean;
-    st?: string; // Status for tasks: 'uncompleted', 'completed', 'failed'
+    st?: string; // Legacy status for tasks written by older API versions
     count?: number;
     invalid?: boolean;
     failed?: boolean;
+    timestamp?: number;
   };
 }
 interface TaskRequirement {
@@ -78,10 +86,41 @@ interface FormattedProgress {
   gameEdition: number;
   pmcFaction: string;
 }
-// Task State Update Structure
-interface ProgressUpdate {
-  [key: string]: boolean | number | string | FieldValue; // For storing updates using dot notation
+// Entries changed after a cursor (returned by formatProgressChanges)
+interface ProgressChanges {
+  tasksProgress: ObjectiveItem[];
+  taskObjectivesProgress: ObjectiveItem[];
+  hideoutModulesProgress: ObjectiveItem[];
+  hideoutPartsProgress: ObjectiveItem[];
+  displayName: string;
+  userId: string;
+  playerLevel: number;
+  gameEdition: number;
+  pmcFaction: string;
+}
+// IDs of the entries removed after a cursor, per progress list
+interface RemovedProgressEntries {
+  tasksProgress: string[];
+  taskObjectivesProgress: string[];
+  hideoutModulesProgress: string[];
+  hideoutPartsProgress: string[];
+}
+// A single operation of a mixed progress batch (PATCH /progress)
+interface ProgressOperation {
+  type?: unknown;
+  id?: unknown;
+  state?: unknown;
+  count?: unknown;
+  value?: unknown;
+}
+interface ProgressOperationResult {
+  index: number;
+  type: string;
+  id?: string;
+  status: 'applied' | 'invalid' | 'skipped';
+  error?: string;
 }
+const MAX_GAME_EDITION = 5;
 // Utility Functions
 const formatObjective = (
   objectiveData: RawObjectiveData | undefined | null,
@@ -355,188 +394,309 @@ const formatProgress = (
   return progress;
 };
 
-// Helper function to update tasks that REQUIRE the changed task
-const _updateDependentTasks = async (
-  changedTaskId: string,
-  newState: string,
-  userId: string,
-  taskData: TaskData, // Assuming taskData and tasks are non-null by this point
-  db: Firestore,
-  progressUpdate: ProgressUpdate,
-  updateTime: FieldValue
-): Promise<void> => {
-  for (const dependentTask of taskData.tasks!) {
-    for (const req of dependentTask.taskRequirements || []) {
-      if (req.task?.id === changedTaskId) {
-        let shouldUnlock = false;
-        let shouldLock = false;
-        if (newState === 'completed' && req.status?.includes('complete')) {
-          shouldUnlock = await checkAllRequirementsMet(
-            dependentTask,
-            changedTaskId,
-            newState,
-            userId,
-            db
-          );
-        }
-        if (newState !== 'completed' && req.status?.includes('complete')) {
-          shouldLock = true;
-        }
-        if (shouldUnlock) {
-          progressUpdate[`tasks.${dependentTask.id}.st`] = 'uncompleted'; // Set to unlocked/active
-          progressUpdate[`tasks.${dependentTask.id}.cAt`] = updateTime;
-        }
-        if (shouldLock) {
-          progressUpdate[`tasks.${dependentTask.id}.st`] = 'uncompleted'; // Set to locked (no separate locked state)
-          progressUpdate[`tasks.${dependentTask.id}.cAt`] = updateTime;
-        }
-      }
-    }
-  }
-};
-
-// Helper function to update ALTERNATIVE tasks OF the changed task
-const _updateAlternativeTasks = (
-  changedTask: Task, // Assuming changedTask is non-null
-  newState: string,
-  progressUpdate: ProgressUpdate,
-  updateTime: FieldValue
-): void => {
-  changedTask.alternatives?.forEach((altTaskId) => {
-    if (newState === 'completed') {
-      // Current task COMPLETED
-      // Mark alternative as failed
-      progressUpdate[`tasks.${altTaskId}.st`] = 'failed';
-      progressUpdate[`tasks.${altTaskId}.failed`] = true;
-      progressUpdate[`tasks.${altTaskId}.cAt`] = updateTime;
-    } else if (newState !== 'failed') {
-      // Current task is NOT FAILED (i.e., it's active or was un-completed from completed)
-      // Mark alternative as active
-      // and remove any 'failed' status that might have been set due to this task's prior completion.
-      progressUpdate[`tasks.${altTaskId}.st`] = 'uncompleted'; // Set to active (unlocked)
-      progressUpdate[`tasks.${altTaskId}.failed`] = FieldValue.delete(); // Remove the 'failed' flag
-      progressUpdate[`tasks.${altTaskId}.cAt`] = updateTime;
-    }
-    // If newState === 'failed', the current logic intentionally does nothing to its alternatives.
+// Keeps only the given entries
+const _pickEntries = (
+  objectiveData: RawObjectiveData | undefined | null,
+  entryIds: string[] | null
+): RawObjectiveData => {
+  if (!entryIds) return { ...(objectiveData ?? {}) };
+  const picked: RawObjectiveData = {};
+  entryIds.forEach((entryId) => {
+    if (objectiveData?.[entryId]) picked[entryId] = objectiveData[entryId];
   });
+  return picked;
+};
+// Formats the entries modified after `since` according to the change log, and lists the ones
+// that were removed. Unlike formatProgress, derived state (edition stash levels, invalidated
+// tasks) is not included; clients are expected to fetch the full progress once and then poll
+// for changes. When the progress was replaced after `since` (or `since` is 0), every entry is
+// returned with `reset` set, and the client has to drop whatever it holds. The same applies to
+// cursors older than the change log retention, as tombstones before that may have been pruned.
+// The cursor is the read time of the change log, which the log's server-side stamps are compared
+// against, so clients with a skewed clock cannot hide their writes from the next poll.
+const formatProgressChanges = (
+  progressData: UserProgressData | undefined | null,
+  userId: string,
+  since: number,
+  changeLog: ProgressChangeLogData | undefined | null,
+  cursor: number
+): {
+  changes: ProgressChanges;
+  removed: RemovedProgressEntries;
+  reset: boolean;
+  cursor: number;
+} => {
+  const reset =
+    since === 0 ||
+    since < cursor - CHANGE_LOG_RETENTION_MS ||
+    (changeLog?.resetAt?.toMillis() ?? 0) > since;
+  const changedSince = (field: ProgressEntryField): string[] | null =>
+    reset
+      ? null
+      : Object.entries(changeLog?.[field] ?? {})
+          .filter(([, changedAt]) => changedAt.toMillis() > since)
+          .map(([entryId]) => entryId);
+  const withTimestamps = (
+    objectiveData: RawObjectiveData,
+    formatted: ObjectiveItem[]
+  ): ObjectiveItem[] =>
+    formatted.map((item) => ({ ...item, timestamp: objectiveData[item.id]?.timestamp }));
+  const removed: RemovedProgressEntries = {
+    tasksProgress: [],
+    taskObjectivesProgress: [],
+    hideoutModulesProgress: [],
+    hideoutPartsProgress: [],
+  };
+  const entriesOf = (field: ProgressEntryField, removedKey: keyof RemovedProgressEntries) => {
+    const entryIds = changedSince(field);
+    const current = progressData?.[field];
+    removed[removedKey] = (entryIds ?? []).filter((entryId) => !current?.[entryId]);
+    return _pickEntries(current, entryIds);
+  };
+  const changedTasks = entriesOf('taskCompletions', 'tasksProgress');
+  const changedObjectives = entriesOf('taskObjectives', 'taskObjectivesProgress');
+  const changedModules = entriesOf('hideoutModules', 'hideoutModulesProgress');
+  const changedParts = entriesOf('hideoutParts', 'hideoutPartsProgress');
+  const changes: ProgressChanges = {
+    ..._initializeBaseProgress(progressData, userId),
+    tasksProgress: withTimestamps(changedTasks, formatObjective(changedTasks)),
+    taskObjectivesProgress: withTimestamps(
+      changedObjectives,
+      formatObjective(changedObjectives, true)
+    ),
+    hideoutModulesProgress: withTimestamps(changedModules, formatObjective(changedModules)),
+    hideoutPartsProgress: withTimestamps(changedParts, formatObjective(changedParts, true)),
+  };
+  return { changes, removed, reset: reset && since > 0, cursor: Math.max(since, cursor) };
 };
 
-const updateTaskState = async (
+// Builds the update for changing a task's state, applying the same side effects as the
+// web app's TaskCard: objectives follow the task, and alternatives of a completed task are
+// failed (or reset again when the task is uncompleted).
+const buildTaskStateUpdate = (
   taskId: string,
   newState: string,
-  userId: string,
   taskData: TaskData | null | undefined
-): Promise<void> => {
-  if (!taskData?.tasks) return;
-  const db: Firestore = admin.firestore();
-  const progressRef: DocumentReference = db.collection('progress').doc(userId);
-  const updateTime = FieldValue.serverTimestamp();
-  const progressUpdate: ProgressUpdate = {};
-
-  const changedTask = taskData.tasks.find((t) => t.id === taskId);
-  if (!changedTask) return;
-
-  // --- Update tasks that REQUIRE the changed task ---
-  await _updateDependentTasks(
-    taskId,
-    newState,
-    userId,
-    taskData as TaskData,
-    db,
-    progressUpdate,
-    updateTime
-  );
-
-  // --- Update ALTERNATIVE tasks OF the changed task ---
-  _updateAlternativeTasks(changedTask, newState, progressUpdate, updateTime);
-
-  // Commit any collected updates
-  if (Object.keys(progressUpdate).length > 0) {
-    try {
-      await progressRef.update(progressUpdate);
-      functions.logger.log('Updated dependent task states', {
-        userId,
-        changedTaskId: taskId,
-        newState,
-        updates: progressUpdate,
+): ProgressUpdate => {
+  const task = taskData?.tasks?.find((t) => t.id === taskId);
+  const objectivesOf = (id: string): TaskObjective[] =>
+    taskData?.tasks?.find((t) => t.id === id)?.objectives ?? [];
+  let progressUpdate: ProgressUpdate = {};
+  if (newState === 'completed') {
+    progressUpdate = { ...progressUpdate, ...actions.setTaskComplete(taskId) };
+    task?.objectives?.forEach((objective) => {
+      progressUpdate = { ...progressUpdate, ...actions.setTaskObjectiveComplete(objective.id) };
+    });
+    // For each alternative task, mark it as failed
+    task?.alternatives?.forEach((altTaskId) => {
+      progressUpdate = { ...progressUpdate, ...actions.setTaskFailed(altTaskId) };
+      objectivesOf(altTaskId).forEach((objective) => {
+        progressUpdate = { ...progressUpdate, ...actions.setTaskObjectiveComplete(objective.id) };
       });
-    } catch (error: unknown) {
-      functions.logger.error('Error updating dependent task states', {
-        userId,
-        changedTaskId: taskId,
-        newState,
-        error: error instanceof Error ? error.message : String(error),
+    });
+  } else if (newState === 'failed') {
+    progressUpdate = { ...progressUpdate, ...actions.setTaskFailed(taskId) };
+    task?.objectives?.forEach((objective) => {
+      progressUpdate = { ...progressUpdate, ...actions.setTaskObjectiveComplete(objective.id) };
+    });
+  } else {
+    progressUpdate = { ...progressUpdate, ...actions.setTaskUncompleted(taskId) };
+    task?.objectives?.forEach((objective) => {
+      progressUpdate = { ...progressUpdate, ...actions.setTaskObjectiveUncomplete(objective.id) };
+    });
+    // For each alternative task, mark it as uncompleted
+    task?.alternatives?.forEach((altTaskId) => {
+      progressUpdate = { ...progressUpdate, ...actions.setTaskUncompleted(altTaskId) };
+      objectivesOf(altTaskId).forEach((objective) => {
+        progressUpdate = {
+          ...progressUpdate,
+          ...actions.setTaskObjectiveUncomplete(objective.id),
+        };
       });
-    }
+    });
   }
+  return progressUpdate;
 };
 
-/**
- * Checks if all requirements for a task are met, considering current progress
- */
-const checkAllRequirementsMet = async (
-  dependentTask: Task,
-  changedTaskId: string,
-  newState: string,
-  userId: string,
-  db: Firestore
-): Promise<boolean> => {
-  try {
-    const progressRef: DocumentReference = db.collection('progress').doc(userId);
-    const progressDoc = await progressRef.get();
-    const progressData = progressDoc.data() || {};
-    const taskCompletions = progressData.tasks || {};
-    // Check if ALL requirements for this dependent task are satisfied
-    const allReqsMet = dependentTask.taskRequirements?.every((innerReq) => {
-      if (!innerReq.task?.id) return true; // Skip if requirement has no task id
-      const reqTaskId = innerReq.task.id;
-      const reqStatus = innerReq.status || [];
-      // If this is the task that just changed status
-      if (reqTaskId === changedTaskId) {
-        // Check if the new state satisfies the requirement
-        if (reqStatus.includes('complete') && newState === 'completed') return true;
-        if (reqStatus.includes('failed') && newState === 'failed') return true;
-        if (
-          reqStatus.includes('active') &&
-          (newState === 'uncompleted' || newState === 'completed')
-        )
-          return true;
-        return false;
+// Builds the update for building or un-building a hideout module. As in the web app's
+// HideoutCard, the module's item requirements follow the module.
+const buildHideoutModuleUpdate = (
+  moduleId: string,
+  complete: boolean,
+  hideoutData: HideoutData | null | undefined
+): ProgressUpdate => {
+  let progressUpdate: ProgressUpdate = complete
+    ? actions.setHideoutModuleComplete(moduleId)
+    : actions.setHideoutModuleUncomplete(moduleId);
+  let hideoutModule: HideoutLevel | undefined;
+  hideoutData?.hideoutStations?.some((station) => {
+    hideoutModule = station.levels?.find((level) => level.id === moduleId);
+    return hideoutModule !== undefined;
+  });
+  hideoutModule?.itemRequirements?.forEach((part) => {
+    progressUpdate = {
+      ...progressUpdate,
+      ...(complete
+        ? actions.setHideoutPartComplete(part.id)
+        : actions.setHideoutPartUncomplete(part.id)),
+    };
+  });
+  return progressUpdate;
+};
+
+// Validates one batch operation and returns its update, or an error message
+const _buildOperationUpdate = (
+  operation: ProgressOperation,
+  taskData: TaskData | null | undefined,
+  hideoutData: HideoutData | null | undefined
+): { update?: ProgressUpdate; error?: string } => {
+  const { type, id, state, count, value } = operation;
+  const needsId = ['task', 'objective', 'hideoutModule', 'hideoutPart'].includes(String(type));
+  if (needsId && (typeof id !== 'string' || id.length === 0)) {
+    return { error: "'id' is required for this operation type." };
+  }
+  const itemId = id as string;
+  const validCount = count === undefined || (Number.isInteger(count) && (count as number) >= 0);
+  switch (type) {
+    case 'task':
+      if (state !== 'completed' && state !== 'uncompleted' && state !== 'failed') {
+        return { error: "Invalid state. Should be 'completed', 'uncompleted', or 'failed'." };
+      }
+      return { update: buildTaskStateUpdate(itemId, state, taskData) };
+    case 'objective':
+    case 'hideoutPart': {
+      if (state === undefined && count === undefined) {
+        return { error: "Provide at least one of 'state' or 'count'." };
+      }
+      if (state !== undefined && state !== 'completed' && state !== 'uncompleted') {
+        return { error: "Invalid state. Should be 'completed' or 'uncompleted'." };
+      }
+      if (!validCount) {
+        return { error: 'Invalid count. Should be a non-negative integer.' };
+      }
+      const isObjective = type === 'objective';
+      let update: ProgressUpdate = {};
+      if (count !== undefined) {
+        update = isObjective
+          ? actions.setObjectiveCount(itemId, count as number)
+          : actions.setHideoutPartCount(itemId, count as number);
       }
-      // For other task requirements, check if they're satisfied based on current progress
-      const otherTaskState = taskCompletions[reqTaskId]?.st;
-      if (reqStatus.includes('complete') && otherTaskState === 'completed') {
-        return true; // Requirement needs completion and task is complete
+      if (state === 'completed') {
+        update = {
+          ...update,
+          ...(isObjective
+            ? actions.setTaskObjectiveComplete(itemId)
+            : actions.setHideoutPartComplete(itemId)),
+        };
+      } else if (state === 'uncompleted') {
+        update = {
+          ...update,
+          ...(isObjective
+            ? actions.setTaskObjectiveUncomplete(itemId)
+            : actions.setHideoutPartUncomplete(itemId)),
+        };
       }
+      return { update };
+    }
+    case 'hideoutModule':
+      if (state !== 'completed' && state !== 'uncompleted') {
+        return { error: "Invalid state. Should be 'completed' or 'uncompleted'." };
+      }
+      return { update: buildHideoutModuleUpdate(itemId, state === 'completed', hideoutData) };
+    case 'level':
+      if (!Number.isInteger(value) || (value as number) < 1) {
+        return { error: 'Invalid level. Should be a positive integer.' };
+      }
+      return { update: actions.setLevel(value as number) };
+    case 'faction':
+      if (value !== 'USEC' && value !== 'BEAR') {
+        return { error: "Invalid faction. Should be 'USEC' or 'BEAR'." };
+      }
+      return { update: actions.setPMCFaction(value as PMCFaction) };
+    case 'gameEdition':
       if (
-        reqStatus.includes('active') &&
-        (otherTaskState === 'uncompleted' || otherTaskState === 'completed')
+        !Number.isInteger(value) ||
+        (value as number) < 1 ||
+        (value as number) > MAX_GAME_EDITION
       ) {
-        return true; // Requirement needs activation and task is active or complete
+        return {
+          error: `Invalid game edition. Should be an integer from 1 to ${MAX_GAME_EDITION}.`,
+        };
       }
-      if (reqStatus.includes('failed') && otherTaskState === 'failed') {
-        return true; // Requirement needs failure and task is failed
+      return { update: actions.setGameEdition(value as number) };
+    case 'displayName':
+      if (value !== null && typeof value !== 'string') {
+        return { error: 'Invalid display name. Should be a string or null.' };
       }
-      return false; // Requirement not met
-    });
-    if (allReqsMet) {
-      functions.logger.log('All requirements met for task unlocking', {
-        userId,
-        taskId: dependentTask.id,
-        changedTaskId,
-      });
-      return true;
+      return { update: actions.setDisplayName(value as string | null) };
+    default:
+      return { error: 'Unknown operation type.' };
+  }
+};
+
+// Validates an ordered list of operations and merges them into a single update.
+// Operations are applied in order, so a later operation wins where two touch the same field.
+// If any operation is invalid, nothing should be written: `valid` is false, the invalid
+// operations carry their error and the rest are reported as skipped.
+const buildProgressOperationsUpdate = (
+  operations: ProgressOperation[],
+  taskData: TaskData | null | undefined,
+  hideoutData: HideoutData | null | undefined
+): { update: ProgressUpdate; results: ProgressOperationResult[]; valid: boolean } => {
+  let update: ProgressUpdate = {};
+  let valid = true;
+  const results: ProgressOperationResult[] = operations.map((operation, index) => {
+    const op: ProgressOperation = operation && typeof operation === 'object' ? operation : {};
+    const result: ProgressOperationResult = {
+      index,
+      type: typeof op.type === 'string' ? op.type : 'unknown',
+      status: 'applied',
+    };
+    if (typeof op.id === 'string') result.id = op.id;
+    const built = _buildOperationUpdate(op, taskData, hideoutData);
+    if (built.error) {
+      valid = false;
+      result.status = 'invalid';
+      result.error = built.error;
+    } else {
+      update = { ...update, ...built.update };
     }
-    return false;
-  } catch (error) {
-    functions.logger.error('Error checking task requirements:', {
-      error: error instanceof Error ? error.message : String(error),
-      userId,
-      taskId: dependentTask.id,
+    return result;
+  });
+  if (!valid) {
+    results.forEach((result) => {
+      if (result.status === 'applied') result.status = 'skipped';
     });
-    // Default to the simplified behavior if checking fails
-    return true;
   }
+  return { update, results, valid };
 };
 
-export { formatProgress, invalidateTaskRecursive, updateTaskState };
+// Writes a task state change, including its side effects, to the user's progress document
+const updateTaskState = async (
+  taskId: string,
+  newState: string,
+  userId: string,
+  taskData: TaskData | null | undefined
+): Promise<void> => {
+  const db: Firestore = admin.firestore();
+  const progressRef: DocumentReference = db.collection('progress').doc(userId);
+  const progressUpdate = buildTaskStateUpdate(taskId, newState, taskData);
+  await progressRef.update(progressUpdate);
+  functions.logger.log('Updated task state', {
+    userId,
+    changedTaskId: taskId,
+    newState,
+    fieldsUpdated: Object.keys(progressUpdate).length,
+  });
+};
+
+export {
+  formatProgress,
+  formatProgressChanges,
+  invalidateTaskRecursive,
+  buildTaskStateUpdate,
+  buildHideoutModuleUpdate,
+  buildProgressOperationsUpdate,
+  updateTaskState,
+};
+export type { ProgressOperation };
@@ -0,0 +1,73 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import {
+  ProgressSnapshotDocData,
+  PRE_RESTORE_SNAPSHOT_RETENTION,
+  pruneSnapshots,
+} from './snapshots.js';
+import { markProgressReset } from './changeLog.js';
+
+interface RestoreRequestData {
+  snapshotId?: unknown;
+}
+
+// Replaces the caller's progress with one of their snapshots (progress/{uid}/snapshots). The
+// progress being replaced is snapshotted first, so a restore can itself be undone.
+async function _restoreProgressSnapshotLogic(
+  request: CallableRequest<RestoreRequestData>
+): Promise<{ restored: string; undoSnapshotId: string | null }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const snapshotId = request.data?.snapshotId;
+  if (typeof snapshotId !== 'string' || snapshotId.length === 0) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Invalid restore parameters: snapshotId must be a non-empty string.'
+    );
+  }
+  const progressRef = db.collection('progress').doc(ownerUid);
+  const snapshotRef = progressRef.collection('snapshots').doc(snapshotId);
+  const undoRef = progressRef.collection('snapshots').doc();
+  try {
+    const undoSnapshotId = await db.runTransaction(async (transaction: Transaction) => {
+      const [snapshotDoc, progressDoc] = await Promise.all([
+        transaction.get(snapshotRef),
+        transaction.get(progressRef),
+      ]);
+      if (!snapshotDoc.exists) {
+        throw new HttpsError('not-found', 'Snapshot not found.');
+      }
+      if (progressDoc.exists) {
+        const undoData: ProgressSnapshotDocData = {
+          takenAt: admin.firestore.FieldValue.serverTimestamp(),
+          reason: 'pre-restore',
+          progress: progressDoc.data()!,
+        };
+        transaction.set(undoRef, undoData);
+      }
+      transaction.set(progressRef, (snapshotDoc.data() as ProgressSnapshotDocData).progress);
+      markProgressReset(transaction, progressRef);
+      return progressDoc.exists ? undoRef.id : null;
+    });
+    await pruneSnapshots(progressRef, 'pre-restore', PRE_RESTORE_SNAPSHOT_RETENTION);
+    logger.log('Restored progress snapshot', { owner: ownerUid, snapshotId });
+    return { restored: snapshotId, undoSnapshotId };
+  } catch (e: unknown) {
+    logger.error('Failed to restore progress snapshot', {
+      owner: ownerUid,
+      snapshotId,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred while restoring progress.');
+  }
+}
+export const restoreProgressSnapshot = onCall(_restoreProgressSnapshotLogic);
@@ -0,0 +1,149 @@
+// Server-side port of the actions in frontend/src/shared_state.ts.
+// Every API write to a progress document goes through these so the API and the web app
+// store progress in exactly the same shape (taskCompletions, taskObjectives, hideoutParts,
+// hideoutModules) and the UI picks up changes made through the API.
+import { FieldValue } from 'firebase-admin/firestore';
+
+// Define interfaces for the state structure (kept in sync with the frontend)
+interface TaskObjective {
+  count?: number;
+  complete?: boolean;
+  timestamp?: number;
+}
+
+interface TaskCompletion {
+  complete?: boolean;
+  failed?: boolean;
+  timestamp?: number;
+}
+
+interface HideoutPart {
+  count?: number;
+  complete?: boolean;
+  timestamp?: number;
+}
+
+interface HideoutModule {
+  complete?: boolean;
+  timestamp?: number;
+}
+
+export type PMCFaction = 'USEC' | 'BEAR';
+
+export interface UserState {
+  level: number;
+  gameEdition: number;
+  pmcFaction: PMCFaction;
+  displayName: string | null;
+  taskObjectives: { [objectiveId: string]: TaskObjective };
+  taskCompletions: { [taskId: string]: TaskCompletion };
+  hideoutParts: { [objectiveId: string]: HideoutPart };
+  hideoutModules: { [hideoutId: string]: HideoutModule };
+}
+
+// The default state to use for new progress documents
+export const defaultState: UserState = {
+  level: 1,
+  gameEdition: 1,
+  pmcFaction: 'USEC',
+  displayName: null,
+  taskObjectives: {},
+  taskCompletions: {},
+  hideoutParts: {},
+  hideoutModules: {},
+};
+
+// Firestore update map keyed by dot-notation field paths, e.g. `taskCompletions.<id>.complete`.
+// Several action results can be merged with object spread; later keys win.
+export interface ProgressUpdate {
+  [fieldPath: string]: boolean | number | string | null | FieldValue;
+}
+
+// Actions mirror the frontend ones, but return the fields they change instead of mutating
+// a store. Only the fields the frontend action touches are written, so existing sibling
+// fields (e.g. an objective's count when completing it) are preserved. Every write stamps
+// `timestamp` like the frontend does.
+export const actions = {
+  setLevel(level: number): ProgressUpdate {
+    return { level: level > 0 ? level : 1 };
+  },
+  setGameEdition(edition: number): ProgressUpdate {
+    return { gameEdition: edition };
+  },
+  setPMCFaction(faction: PMCFaction): ProgressUpdate {
+    return { pmcFaction: faction };
+  },
+  setDisplayName(name: string | null): ProgressUpdate {
+    return { displayName: typeof name === 'string' ? name : null };
+  },
+  setObjectiveCount(objectiveId: string, count: number): ProgressUpdate {
+    return {
+      [`taskObjectives.${objectiveId}.count`]: count >= 0 ? count : 0,
+      [`taskObjectives.${objectiveId}.timestamp`]: Date.now(),
+    };
+  },
+  setHideoutPartCount(objectiveId: string, count: number): ProgressUpdate {
+    return {
+      [`hideoutParts.${objectiveId}.count`]: count >= 0 ? count : 0,
+      [`hideoutParts.${objectiveId}.timestamp`]: Date.now(),
+    };
+  },
+  setTaskComplete(taskId: string): ProgressUpdate {
+    return {
+      [`taskCompletions.${taskId}.complete`]: true,
+      [`taskCompletions.${taskId}.failed`]: false,
+      [`taskCompletions.${taskId}.timestamp`]: Date.now(),
+    };
+  },
+  setTaskFailed(taskId: string): ProgressUpdate {
+    return {
+      // Typically failed tasks are also considered 'complete' in terms of progression
+      [`taskCompletions.${taskId}.complete`]: true,
+      [`taskCompletions.${taskId}.failed`]: true,
+      [`taskCompletions.${taskId}.timestamp`]: Date.now(),
+    };
+  },
+  setTaskUncompleted(taskId: string): ProgressUpdate {
+    return {
+      [`taskCompletions.${taskId}.complete`]: false,
+      [`taskCompletions.${taskId}.failed`]: false,
+      [`taskCompletions.${taskId}.timestamp`]: Date.now(),
+    };
+  },
+  setTaskObjectiveComplete(objectiveId: string): ProgressUpdate {
+    return {
+      [`taskObjectives.${objectiveId}.complete`]: true,
+      [`taskObjectives.${objectiveId}.timestamp`]: Date.now(),
+    };
+  },
+  setTaskObjectiveUncomplete(objectiveId: string): ProgressUpdate {
+    return {
+      [`taskObjectives.${objectiveId}.complete`]: false,
+      [`taskObjectives.${objectiveId}.timestamp`]: Date.now(),
+    };
+  },
+  setHideoutPartComplete(objectiveId: string): ProgressUpdate {
+    return {
+      [`hideoutParts.${objectiveId}.complete`]: true,
+      [`hideoutParts.${objectiveId}.timestamp`]: Date.now(),
+    };
+  },
+  setHideoutPartUncomplete(objectiveId: string): ProgressUpdate {
+    return {
+      [`hideoutParts.${objectiveId}.complete`]: false,
+      [`hideoutParts.${objectiveId}.timestamp`]: Date.now(),
+    };
+  },
+  setHideoutModuleComplete(hideoutId: string): ProgressUpdate {
+    return {
+      [`hideoutModules.${hideoutId}.complete`]: true,
+      [`hideoutModules.${hideoutId}.timestamp`]: Date.now(),
+    };
+  },
+  setHideoutModuleUncomplete(hideoutId: string): ProgressUpdate {
+    return {
+      [`hideoutModules.${hideoutId}.complete`]: false,
+      [`hideoutModules.${hideoutId}.timestamp`]: Date.now(),
+    };
+  },
+};
@@ -0,0 +1,127 @@
+import * as logger from 'firebase-functions/logger';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { defineInt } from 'firebase-functions/params';
+import admin from 'firebase-admin';
+import {
+  Firestore,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+  Timestamp,
+} from 'firebase-admin/firestore';
+
+// Daily snapshots kept per user; older ones are deleted when a new one is written
+const snapshotRetention = defineInt('PROGRESS_SNAPSHOT_RETENTION', { default: 7 });
+// Pre-restore snapshots are kept separately, so restoring a few times does not evict the
+// daily snapshots
+export const PRE_RESTORE_SNAPSHOT_RETENTION = 3;
+const PAGE_SIZE = 200;
+// A little over a day, so progress changed just before the previous run is not missed
+const ACTIVE_WINDOW_MS = 25 * 60 * 60 * 1000;
+
+// jobs/snapshotProgress: where a run that was cut off stopped, so the next run carries on
+// from there instead of starting a fresh window and skipping the users it did not reach
+interface SnapshotJobState {
+  resumeFrom?: Timestamp;
+}
+
+export type SnapshotReason = 'daily' | 'pre-restore';
+// progress/{uid}/snapshots/{snapshotId}
+export interface ProgressSnapshotDocData {
+  takenAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+  reason: SnapshotReason;
+  progress: DocumentData;
+}
+
+export const getSnapshotRetention = (): number => snapshotRetention.value() || 7;
+
+// Deletes all but the newest `keep` snapshots of a user taken for `reason`
+export async function pruneSnapshots(
+  progressRef: DocumentReference,
+  reason: SnapshotReason,
+  keep: number
+): Promise<number> {
+  const stale = await progressRef
+    .collection('snapshots')
+    .where('reason', '==', reason)
+    .orderBy('takenAt', 'desc')
+    .offset(keep)
+    .get();
+  if (stale.empty) return 0;
+  const batch = progressRef.firestore.batch();
+  stale.docs.forEach((snapshotDoc) => batch.delete(snapshotDoc.ref));
+  await batch.commit();
+  return stale.size;
+}
+
+// Daily snapshot IDs are the UTC date, so running twice on one day keeps a single snapshot
+const dailySnapshotId = (date: Date): string => date.toISOString().slice(0, 10);
+
+async function snapshotProgressDoc(progressDoc: DocumentSnapshot, now: Date): Promise<void> {
+  const snapshotData: ProgressSnapshotDocData = {
+    takenAt: admin.firestore.FieldValue.serverTimestamp(),
+    reason: 'daily',
+    progress: progressDoc.data() as DocumentData,
+  };
+  await progressDoc.ref.collection('snapshots').doc(dailySnapshotId(now)).set(snapshotData);
+  await pruneSnapshots(progressDoc.ref, 'daily', getSnapshotRetention());
+}
+
+// Snapshots the progress of every user whose progress document changed since the previous run,
+// so unchanged (inactive) users do not fill their retention with identical copies. Active users
+// are found through lastChangedAt in progress/{uid}/meta/changes (set by trackProgressChanges),
+// so only their documents are read.
+export const snapshotProgress = onSchedule(
+  { schedule: 'every day 04:00', timeoutSeconds: 540, memory: '512MiB' },
+  async () => {
+    const db: Firestore = admin.firestore();
+    const now = new Date();
+    const stateRef = db.collection('jobs').doc('snapshotProgress');
+    let scanned = 0;
+    let snapshotted = 0;
+    let failed = 0;
+    try {
+      const state = (await stateRef.get()).data() as SnapshotJobState | undefined;
+      const activeSince =
+        state?.resumeFrom ?? Timestamp.fromMillis(now.getTime() - ACTIVE_WINDOW_MS);
+      let lastDoc: QueryDocumentSnapshot | undefined;
+      for (;;) {
+        let query = db
+          .collectionGroup('meta')
+          .where('lastChangedAt', '>=', activeSince)
+          .orderBy('lastChangedAt')
+          .limit(PAGE_SIZE);
+        if (lastDoc) query = query.startAfter(lastDoc);
+        const page = await query.get();
+        if (page.empty) break;
+        const progressRefs = page.docs
+          .map((changesDoc) => changesDoc.ref.parent.parent)
+          .filter((ref): ref is DocumentReference => ref !== null);
+        const active = (await db.getAll(...progressRefs)).filter((doc) => doc.exists);
+        const results = await Promise.allSettled(
+          active.map((doc) => snapshotProgressDoc(doc, now))
+        );
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            snapshotted++;
+          } else {
+            failed++;
+            logger.error('Failed to snapshot progress', {
+              userId: active[index].id,
+              error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+            });
+          }
+        });
+        scanned += page.size;
+        lastDoc = page.docs[page.docs.length - 1];
+        await stateRef.set({ resumeFrom: lastDoc.get('lastChangedAt') });
+        if (page.size < PAGE_SIZE) break;
+      }
+      await stateRef.delete();
+      logger.log('Snapshotted progress', { scanned, snapshotted, failed });
+    } catch (error) {
+      logger.error('Failed to snapshot progress', { error, scanned, snapshotted });
+    }
+  }
+);
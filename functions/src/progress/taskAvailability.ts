@@ -0,0 +1,105 @@
+// Server-side port of the frontend's progressStore.unlockedTasks getter
+// (frontend/src/stores/progress.ts). Keep the two in sync: a task is available when it is not
+// complete and its failed requirements, player level, trader levels, prerequisites and faction
+// all allow it.
+
+interface TaskRequirement {
+  task: { id: string };
+  status?: string[];
+}
+interface TaskTraderLevelRequirement {
+  trader: { id: string };
+  level: number;
+}
+interface Task {
+  id: string;
+  minPlayerLevel?: number;
+  taskRequirements?: TaskRequirement[];
+  failedRequirements?: TaskRequirement[];
+  traderLevelRequirements?: TaskTraderLevelRequirement[];
+  factionName?: string;
+}
+interface TaskData {
+  tasks?: Task[];
+}
+interface AvailabilityProgressData {
+  level?: number;
+  pmcFaction?: string;
+  taskCompletions?: { [taskId: string]: { complete?: boolean; failed?: boolean } };
+}
+
+export type TaskLockType =
+  | 'failedRequirement'
+  | 'playerLevel'
+  | 'traderLevel'
+  | 'prerequisite'
+  | 'faction';
+export interface TaskLockReason {
+  type: TaskLockType;
+  taskId?: string; // Task that failed (failedRequirement) or is not yet complete (prerequisite)
+  traderId?: string;
+  required?: number | string;
+  current?: number | string;
+}
+export interface TaskAvailability {
+  available: string[];
+  completed: string[]; // Includes failed tasks, which the frontend also treats as complete
+  locked: { id: string; reasons: TaskLockReason[] }[];
+}
+
+// Unlike the frontend getter, which stops at the first unmet check, every reason a task is
+// locked is reported
+const getLockReasons = (task: Task, progress: AvailabilityProgressData): TaskLockReason[] => {
+  const completions = progress.taskCompletions ?? {};
+  const playerLevel = progress.level ?? 0;
+  const playerFaction = progress.pmcFaction ?? 'Unknown';
+  const reasons: TaskLockReason[] = [];
+  (task.failedRequirements ?? []).forEach((req) => {
+    if (completions[req.task.id]?.failed) {
+      reasons.push({ type: 'failedRequirement', taskId: req.task.id });
+    }
+  });
+  if (task.minPlayerLevel && playerLevel < task.minPlayerLevel) {
+    reasons.push({ type: 'playerLevel', required: task.minPlayerLevel, current: playerLevel });
+  }
+  (task.traderLevelRequirements ?? []).forEach((req) => {
+    // Trader levels are not tracked yet; like the frontend, the player level stands in for them
+    if (playerLevel < req.level) {
+      reasons.push({
+        type: 'traderLevel',
+        traderId: req.trader.id,
+        required: req.level,
+        current: playerLevel,
+      });
+    }
+  });
+  (task.taskRequirements ?? []).forEach((req) => {
+    if (!completions[req.task.id]?.complete) {
+      reasons.push({ type: 'prerequisite', taskId: req.task.id });
+    }
+  });
+  if (task.factionName && task.factionName !== 'Any' && task.factionName !== playerFaction) {
+    reasons.push({ type: 'faction', required: task.factionName, current: playerFaction });
+  }
+  return reasons;
+};
+
+export const getTaskAvailability = (
+  progress: AvailabilityProgressData | undefined | null,
+  taskData: TaskData | null | undefined
+): TaskAvailability => {
+  const availability: TaskAvailability = { available: [], completed: [], locked: [] };
+  (taskData?.tasks ?? []).forEach((task) => {
+    if (progress?.taskCompletions?.[task.id]?.complete) {
+      availability.completed.push(task.id);
+      return;
+    }
+    const reasons = getLockReasons(task, progress ?? {});
+    if (reasons.length === 0) {
+      availability.available.push(task.id);
+    } else {
+      availability.locked.push({ id: task.id, reasons });
+    }
+  });
+  return availability;
+};
@@ -0,0 +1,67 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import UIDGenerator from 'uid-generator';
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { ShareDocData, SharePrivacy } from './shareHandler.js';
+type ShareLinkData = Partial<SharePrivacy>;
+// Reads the privacy toggles of a request; anything not given defaults to shown
+export function parseSharePrivacy(data: ShareLinkData | undefined): SharePrivacy {
+  const privacy: SharePrivacy = { hideDisplayName: false, hideHideout: false, tasksOnly: false };
+  (Object.keys(privacy) as (keyof SharePrivacy)[]).forEach((key) => {
+    const value = data?.[key];
+    if (value === undefined) return;
+    if (typeof value !== 'boolean') {
+      throw new HttpsError(
+        'invalid-argument',
+        `Invalid share parameters: ${key} must be a boolean.`
+      );
+    }
+    privacy[key] = value;
+  });
+  return privacy;
+}
+// Creates a public share link for the caller's progress. A user has at most one link, so
+// creating a new one revokes the previous ID (e.g. after it was posted somewhere unwanted).
+async function _createShareLinkLogic(
+  request: CallableRequest<ShareLinkData>
+): Promise<{ shareId: string }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const privacy = parseSharePrivacy(request.data);
+  const shareCollectionRef = db.collection('share');
+  const uidgen = new UIDGenerator(128);
+  try {
+    const shareId = await uidgen.generate();
+    await db.runTransaction(async (transaction: Transaction) => {
+      const existing = await transaction.get(shareCollectionRef.where('owner', '==', ownerUid));
+      const shareRef = shareCollectionRef.doc(shareId);
+      if ((await transaction.get(shareRef)).exists) {
+        throw new HttpsError('internal', 'Failed to generate a unique share ID.');
+      }
+      existing.docs.forEach((doc) => transaction.delete(doc.ref));
+      const shareData: ShareDocData = {
+        owner: ownerUid,
+        ...privacy,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      transaction.set(shareRef, shareData);
+    });
+    logger.log('Created share link', { owner: ownerUid });
+    return { shareId };
+  } catch (e: unknown) {
+    logger.error('Failed to create share link', {
+      owner: ownerUid,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred while creating the share link.');
+  }
+}
+export const createShareLink = onCall(_createShareLinkLogic);
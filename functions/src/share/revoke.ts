@@ -0,0 +1,25 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore } from 'firebase-admin/firestore';
+// Deletes the caller's share link; its URL stops working immediately
+async function _revokeShareLinkLogic(
+  request: CallableRequest<void>
+): Promise<{ revoked: boolean }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const shares = await db.collection('share').where('owner', '==', ownerUid).get();
+  if (shares.empty) {
+    throw new HttpsError('not-found', 'You have no share link.');
+  }
+  const batch = db.batch();
+  shares.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+  logger.log('Revoked share link', { owner: ownerUid });
+  return { revoked: true };
+}
+export const revokeShareLink = onCall(_revokeShareLinkLogic);
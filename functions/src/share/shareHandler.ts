@@ -0,0 +1,128 @@
+import functions from 'firebase-functions';
+import admin from 'firebase-admin';
+import { Request, Response } from 'express';
+import { Firestore, DocumentReference, DocumentSnapshot } from 'firebase-admin/firestore';
+import { getTaskData, getHideoutData } from '../utils/dataLoaders.js';
+import { formatProgress } from '../progress/progressUtils.js';
+
+// Privacy toggles stored on share/{shareId} alongside its owner
+export interface SharePrivacy {
+  hideDisplayName: boolean;
+  hideHideout: boolean;
+  tasksOnly: boolean; // Only task and objective progress; no level, edition, faction or hideout
+}
+export interface ShareDocData extends SharePrivacy {
+  owner: string;
+  createdAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+}
+type FormattedProgress = ReturnType<typeof formatProgress>;
+// The owner's user ID is never part of a public profile; the share ID stands in for it
+type PublicProfile = Partial<Omit<FormattedProgress, 'userId'>> &
+  Pick<FormattedProgress, 'tasksProgress' | 'taskObjectivesProgress'> & { shareId: string };
+
+// Public profiles may be embedded in overlays and such, so allow short-lived caching
+const PUBLIC_PROFILE_MAX_AGE_SECONDS = 60;
+
+export function buildPublicProfile(
+  progress: FormattedProgress,
+  shareId: string,
+  privacy: SharePrivacy,
+  storedDisplayName: unknown
+): PublicProfile {
+  const profile: PublicProfile = {
+    shareId,
+    tasksProgress: progress.tasksProgress,
+    taskObjectivesProgress: progress.taskObjectivesProgress,
+  };
+  // formatProgress falls back to the start of the user ID when no display name is set, so only a
+  // name the player actually stored is published
+  if (!privacy.hideDisplayName && typeof storedDisplayName === 'string' && storedDisplayName) {
+    profile.displayName = progress.displayName;
+  }
+  if (!privacy.tasksOnly) {
+    profile.playerLevel = progress.playerLevel;
+    profile.gameEdition = progress.gameEdition;
+    profile.pmcFaction = progress.pmcFaction;
+    if (!privacy.hideHideout) {
+      profile.hideoutModulesProgress = progress.hideoutModulesProgress;
+      profile.hideoutPartsProgress = progress.hideoutPartsProgress;
+    }
+  }
+  return profile;
+}
+
+/**
+ * @openapi
+ * /public/profile/{shareId}:
+ *   get:
+ *     summary: "Returns the progress a player has shared through a share link"
+ *     description: "Does not require a token. Fields the player has chosen to hide are omitted."
+ *     tags:
+ *       - "Public"
+ *     security: []
+ *     parameters:
+ *       - name: "shareId"
+ *         in: "path"
+ *         description: "ID of the share link"
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: "Shared progress retrieved successfully."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: "#/components/schemas/PublicProfile"
+ *       404:
+ *         description: "Share link not found or revoked."
+ *       500:
+ *         description: "Internal server error."
+ */
+const getPublicProfile = async (req: Request, res: Response): Promise<void> => {
+  const shareId = req.params.shareId;
+  const db: Firestore = admin.firestore();
+  try {
+    const shareDoc: DocumentSnapshot<ShareDocData> = await (
+      db.collection('share').doc(shareId) as DocumentReference<ShareDocData>
+    ).get();
+    const share = shareDoc.data();
+    if (!shareDoc.exists || !share) {
+      res.status(404).send({ error: 'Share link not found.' });
+      return;
+    }
+    const [progressDoc, hideoutData, taskData] = await Promise.all([
+      db.collection('progress').doc(share.owner).get(),
+      getHideoutData(),
+      getTaskData(),
+    ]);
+    if (hideoutData === null || taskData === null) {
+      functions.logger.error('Failed to load essential Tarkov data (tasks or hideout)', {
+        shareId,
+        hideoutLoaded: hideoutData !== null,
+        tasksLoaded: taskData !== null,
+      });
+      res.status(500).send({ error: 'Failed to load essential game data.' });
+      return;
+    }
+    const progressData = progressDoc.data();
+    const progress = formatProgress(progressData, share.owner, hideoutData, taskData);
+    res.set('Cache-Control', `public, max-age=${PUBLIC_PROFILE_MAX_AGE_SECONDS}`);
+    res.status(200).json({
+      data: buildPublicProfile(progress, shareId, share, progressData?.displayName),
+    });
+  } catch (error: unknown) {
+    functions.logger.error('Error fetching public profile:', {
+      error: error instanceof Error ? error.message : String(error),
+      shareId,
+    });
+    res.status(500).send({ error: 'Failed to retrieve shared progress.' });
+  }
+};
+
+export default {
+  getPublicProfile,
+};
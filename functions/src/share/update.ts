@@ -0,0 +1,26 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore } from 'firebase-admin/firestore';
+import { SharePrivacy } from './shareHandler.js';
+import { parseSharePrivacy } from './create.js';
+// Changes the privacy toggles of the caller's share link, keeping its ID
+async function _updateShareLinkLogic(
+  request: CallableRequest<Partial<SharePrivacy>>
+): Promise<{ shareId: string }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const privacy = parseSharePrivacy(request.data);
+  const shares = await db.collection('share').where('owner', '==', ownerUid).limit(1).get();
+  if (shares.empty) {
+    throw new HttpsError('not-found', 'You have no share link.');
+  }
+  await shares.docs[0].ref.update({ ...privacy });
+  logger.log('Updated share link privacy', { owner: ownerUid, ...privacy });
+  return { shareId: shares.docs[0].id };
+}
+export const updateShareLink = onCall(_updateShareLinkLogic);
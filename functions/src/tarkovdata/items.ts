@@ -0,0 +1,131 @@
+import admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { createHash } from 'crypto';
+import { Firestore, DocumentReference } from 'firebase-admin/firestore';
+
+// Firestore accepts at most 500 writes per batch
+const BATCH_SIZE = 500;
+const MAX_CONCURRENT_BATCHES = 4;
+
+interface ItemsManifest {
+  hashes?: { [docId: string]: string };
+}
+interface ItemWrite {
+  docId: string;
+  kind: 'added' | 'changed' | 'removed';
+  item?: { [key: string]: unknown };
+}
+export interface ItemsSyncSummary {
+  total: number; // Items received from the API
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+  failed: number; // Writes whose batch failed; they are retried on the next run
+}
+
+// Item IDs become document IDs, which cannot contain these characters
+export const itemDocId = (id: string): string => id.replace(/[/\\*?[\]]/g, '_');
+
+const hashItem = (item: unknown): string =>
+  createHash('sha256').update(JSON.stringify(item)).digest('hex');
+
+// Runs the tasks at most `limit` at a time
+async function runWithConcurrency(tasks: (() => Promise<void>)[], limit: number): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      await task();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+}
+
+// Writes the fetched items to the items collection. The hash of every stored item is kept in
+// tarkovdata/items, so only items that were added or changed since the last run are written,
+// and items no longer returned by the API are deleted. Without a manifest (the first run), every
+// item is written and the existing documents are listed to find removed ones.
+export async function saveItems<T extends { id: string }>(items: T[]): Promise<ItemsSyncSummary> {
+  const db: Firestore = admin.firestore();
+  const itemsCollection = db.collection('items');
+  const manifestRef = db.collection('tarkovdata').doc('items');
+  const manifestDoc = await manifestRef.get();
+  const previousHashes: { [docId: string]: string } = manifestDoc.exists
+    ? ((manifestDoc.data() as ItemsManifest).hashes ?? {})
+    : {};
+  const existingIds = manifestDoc.exists
+    ? new Set(Object.keys(previousHashes))
+    : new Set((await itemsCollection.listDocuments()).map((ref: DocumentReference) => ref.id));
+
+  const writes: ItemWrite[] = [];
+  const hashes: { [docId: string]: string } = {};
+  items.forEach((item) => {
+    const docId = itemDocId(item.id);
+    const hash = hashItem(item);
+    hashes[docId] = hash;
+    if (!existingIds.has(docId)) {
+      writes.push({ docId, kind: 'added', item });
+    } else if (previousHashes[docId] !== hash) {
+      writes.push({ docId, kind: 'changed', item });
+    }
+  });
+  existingIds.forEach((docId) => {
+    if (!(docId in hashes)) writes.push({ docId, kind: 'removed' });
+  });
+
+  const summary: ItemsSyncSummary = {
+    total: items.length,
+    added: 0,
+    changed: 0,
+    removed: 0,
+    unchanged: items.length - writes.filter((write) => write.kind !== 'removed').length,
+    failed: 0,
+  };
+  const chunks: ItemWrite[][] = [];
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    chunks.push(writes.slice(i, i + BATCH_SIZE));
+  }
+  await runWithConcurrency(
+    chunks.map((chunk, index) => async () => {
+      const batch = db.batch();
+      chunk.forEach((write) => {
+        const docRef = itemsCollection.doc(write.docId);
+        if (write.kind === 'removed') {
+          batch.delete(docRef);
+        } else {
+          batch.set(docRef, write.item!);
+        }
+      });
+      try {
+        await batch.commit();
+        chunk.forEach((write) => summary[write.kind]++);
+      } catch (e: unknown) {
+        logger.error(`Failed to save item batch ${index + 1} of ${chunks.length}:`, {
+          error: e instanceof Error ? e.message : String(e),
+          writes: chunk.length,
+        });
+        summary.failed += chunk.length;
+        // Restore the previous state so the next run tries these writes again
+        chunk.forEach((write) => {
+          if (existingIds.has(write.docId)) {
+            hashes[write.docId] = previousHashes[write.docId] ?? '';
+          } else {
+            delete hashes[write.docId];
+          }
+        });
+      }
+    }),
+    MAX_CONCURRENT_BATCHES
+  );
+
+  await manifestRef.set({
+    hashes,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await manifestRef.collection('runs').add({
+    ...summary,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return summary;
+}
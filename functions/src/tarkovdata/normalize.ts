@@ -0,0 +1,219 @@
+// Converts tarkov.dev GraphQL results into the documents stored at tarkovdata/tasks and
+// tarkovdata/hideout. The shapes follow what progressUtils.ts, taskAvailability.ts and
+// neededItems.ts read, and only the fields they (or API clients) need are kept so the documents
+// stay well below Firestore's 1 MiB limit.
+
+interface RawItem {
+  id: string;
+  name?: string;
+  shortName?: string;
+}
+interface RawTaskStatusRequirement {
+  task?: { id: string; name?: string } | null;
+  status?: string[] | null;
+}
+interface RawTaskObjective {
+  id: string;
+  type?: string;
+  description?: string;
+  optional?: boolean;
+  maps?: { id: string }[] | null;
+  item?: RawItem | null;
+  count?: number | null;
+  foundInRaid?: boolean | null;
+  // TaskObjectiveTaskStatus
+  task?: { id: string } | null;
+  status?: string[] | null;
+}
+export interface RawTask {
+  id: string;
+  name?: string;
+  trader?: { id: string; name?: string } | null;
+  map?: { id: string; name?: string } | null;
+  kappaRequired?: boolean | null;
+  lightkeeperRequired?: boolean | null;
+  experience?: number | null;
+  minPlayerLevel?: number | null;
+  factionName?: string | null;
+  taskRequirements?: (RawTaskStatusRequirement | null)[] | null;
+  traderRequirements?:
+    | {
+        trader?: { id: string; name?: string } | null;
+        requirementType?: string | null;
+        value?: number | null;
+      }[]
+    | null;
+  objectives?: (RawTaskObjective | null)[] | null;
+  failConditions?: (RawTaskObjective | null)[] | null;
+}
+interface RawItemRequirement {
+  id: string;
+  item?: RawItem | null;
+  count?: number | null;
+  attributes?: { type?: string; name?: string; value?: string }[] | null;
+}
+export interface RawHideoutStation {
+  id: string;
+  name?: string;
+  normalizedName?: string;
+  levels?:
+    | {
+        id: string;
+        level: number;
+        constructionTime?: number | null;
+        itemRequirements?: (RawItemRequirement | null)[] | null;
+        stationLevelRequirements?: { station?: { id: string } | null; level: number }[] | null;
+        traderRequirements?:
+          | {
+              trader?: { id: string } | null;
+              requirementType?: string | null;
+              value?: number | null;
+            }[]
+          | null;
+      }[]
+    | null;
+}
+
+interface TaskRequirement {
+  task: { id: string; name?: string };
+  status: string[];
+}
+interface TaskObjective {
+  id: string;
+  type?: string;
+  description?: string;
+  optional: boolean;
+  maps: string[];
+  item?: RawItem;
+  count?: number;
+  foundInRaid?: boolean;
+}
+export interface Task {
+  id: string;
+  name?: string;
+  trader?: { id: string; name?: string };
+  map?: { id: string; name?: string };
+  kappaRequired: boolean;
+  lightkeeperRequired: boolean;
+  experience: number;
+  minPlayerLevel: number;
+  factionName: string;
+  taskRequirements: TaskRequirement[];
+  failedRequirements: TaskRequirement[]; // Tasks whose failure also fails this one
+  traderLevelRequirements: { trader: { id: string; name?: string }; level: number }[];
+  alternatives: string[]; // Tasks whose completion fails this one
+  objectives: TaskObjective[];
+}
+interface HideoutItemRequirement {
+  id: string;
+  item?: RawItem;
+  count: number;
+  foundInRaid: boolean;
+}
+export interface HideoutStation {
+  id: string;
+  name?: string;
+  normalizedName?: string;
+  levels: {
+    id: string;
+    level: number;
+    constructionTime: number;
+    itemRequirements: HideoutItemRequirement[];
+    stationLevelRequirements: { station: { id: string }; level: number }[];
+    traderRequirements: { trader: { id: string }; level: number }[];
+  }[];
+}
+
+const compact = <T>(entries: (T | null | undefined)[] | null | undefined): T[] =>
+  (entries ?? []).filter((entry): entry is T => entry !== null && entry !== undefined);
+
+const itemSummary = (item: RawItem | null | undefined): RawItem | undefined =>
+  item?.id ? { id: item.id, name: item.name, shortName: item.shortName } : undefined;
+
+// Task status fail conditions ("fails if <task> is <status>") of the given status
+const failConditionTasks = (task: RawTask, status: string): TaskRequirement[] =>
+  compact(task.failConditions)
+    .filter((condition) => condition.task?.id && condition.status?.includes(status))
+    .map((condition) => ({
+      task: { id: condition.task!.id },
+      status: condition.status ?? [],
+    }));
+
+export const normalizeTasks = (rawTasks: (RawTask | null)[] | null | undefined): Task[] =>
+  compact(rawTasks).map((task) => ({
+    id: task.id,
+    name: task.name,
+    ...(task.trader ? { trader: { id: task.trader.id, name: task.trader.name } } : {}),
+    ...(task.map ? { map: { id: task.map.id, name: task.map.name } } : {}),
+    kappaRequired: task.kappaRequired ?? false,
+    lightkeeperRequired: task.lightkeeperRequired ?? false,
+    experience: task.experience ?? 0,
+    minPlayerLevel: task.minPlayerLevel ?? 0,
+    factionName: task.factionName ?? 'Any',
+    taskRequirements: compact(task.taskRequirements)
+      .filter((req) => req.task?.id)
+      .map((req) => ({
+        task: { id: req.task!.id, name: req.task!.name },
+        status: req.status ?? [],
+      })),
+    failedRequirements: failConditionTasks(task, 'failed'),
+    traderLevelRequirements: compact(task.traderRequirements)
+      .filter((req) => req.trader?.id && (req.requirementType ?? 'level') === 'level')
+      .map((req) => ({
+        trader: { id: req.trader!.id, name: req.trader!.name },
+        level: req.value ?? 0,
+      })),
+    alternatives: failConditionTasks(task, 'complete').map((req) => req.task.id),
+    objectives: compact(task.objectives).map((objective) => {
+      const item = itemSummary(objective.item);
+      return {
+        id: objective.id,
+        type: objective.type,
+        description: objective.description,
+        optional: objective.optional ?? false,
+        maps: compact(objective.maps).map((map) => map.id),
+        ...(item ? { item } : {}),
+        ...(typeof objective.count === 'number' ? { count: objective.count } : {}),
+        ...(typeof objective.foundInRaid === 'boolean'
+          ? { foundInRaid: objective.foundInRaid }
+          : {}),
+      };
+    }),
+  }));
+
+// Hideout item requirements mark found in raid items with an attribute rather than a field
+const requiresFoundInRaid = (requirement: RawItemRequirement): boolean =>
+  compact(requirement.attributes).some(
+    (attribute) =>
+      (attribute.type === 'foundInRaid' || attribute.name === 'found_in_raid') &&
+      attribute.value === 'true'
+  );
+
+export const normalizeHideoutStations = (
+  rawStations: (RawHideoutStation | null)[] | null | undefined
+): HideoutStation[] =>
+  compact(rawStations).map((station) => ({
+    id: station.id,
+    name: station.name,
+    normalizedName: station.normalizedName,
+    levels: compact(station.levels).map((level) => ({
+      id: level.id,
+      level: level.level,
+      constructionTime: level.constructionTime ?? 0,
+      itemRequirements: compact(level.itemRequirements).map((requirement) => {
+        const item = itemSummary(requirement.item);
+        return {
+          id: requirement.id,
+          ...(item ? { item } : {}),
+          count: requirement.count ?? 1,
+          foundInRaid: requiresFoundInRaid(requirement),
+        };
+      }),
+      stationLevelRequirements: compact(level.stationLevelRequirements)
+        .filter((req) => req.station?.id)
+        .map((req) => ({ station: { id: req.station!.id }, level: req.level })),
+      traderRequirements: compact(level.traderRequirements)
+        .filter((req) => req.trader?.id && (req.requirementType ?? 'level') === 'level')
+        .map((req) => ({ trader: { id: req.trader!.id }, level: req.value ?? 0 })),
+    })),
+  }));
@@ -0,0 +1,52 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore } from 'firebase-admin/firestore';
+import { requireAdmin } from '../auth/admin.js';
+import { clearTarkovDataCache, getTaskData, getHideoutData } from '../utils/dataLoaders.js';
+
+interface RefreshResult {
+  tasksVersion: number | null;
+  hideoutVersion: number | null;
+}
+
+// Bumps the version of tarkovdata/tasks and tarkovdata/hideout, so every warm instance reloads
+// them at its next version check (write requests check on every call, reads once the cache TTL
+// has passed). Use after editing the documents by hand, or when a data update has to take
+// effect right away.
+async function _refreshTarkovDataCacheLogic(
+  request: CallableRequest<void>
+): Promise<RefreshResult> {
+  requireAdmin(request);
+  const db: Firestore = admin.firestore();
+  const tasksRef = db.collection('tarkovdata').doc('tasks');
+  const hideoutRef = db.collection('tarkovdata').doc('hideout');
+  try {
+    const batch = db.batch();
+    [tasksRef, hideoutRef].forEach((ref) => {
+      batch.update(ref, {
+        version: admin.firestore.FieldValue.increment(1),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+    clearTarkovDataCache();
+    await Promise.all([getTaskData(), getHideoutData()]);
+    const [tasksDoc, hideoutDoc] = await db.getAll(tasksRef, hideoutRef, {
+      fieldMask: ['version'],
+    });
+    const result: RefreshResult = {
+      tasksVersion: tasksDoc.get('version') ?? null,
+      hideoutVersion: hideoutDoc.get('version') ?? null,
+    };
+    logger.log('Refreshed tarkov data cache', { ...result, admin: request.auth?.uid });
+    return result;
+  } catch (error) {
+    logger.error('Failed to refresh tarkov data cache:', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new HttpsError('internal', 'Failed to refresh the tarkov data cache.');
+  }
+}
+
+export const refreshTarkovDataCache = onCall(_refreshTarkovDataCacheLogic);
@@ -0,0 +1,191 @@
+import admin from 'firebase-admin';
+import { logger } from 'firebase-functions/v2';
+import { defineString } from 'firebase-functions/params';
+import { request, gql } from 'graphql-request';
+import { Firestore } from 'firebase-admin/firestore';
+import {
+  normalizeTasks,
+  normalizeHideoutStations,
+  RawTask,
+  RawHideoutStation,
+} from './normalize.js';
+
+const DEFAULT_TARKOV_API_URL = 'https://api.tarkov.dev/graphql';
+// GraphQL endpoint the scheduled fetch reads from; point it at a local mock when testing
+const tarkovApiUrl = defineString('TARKOV_API_URL', { default: DEFAULT_TARKOV_API_URL });
+
+export const getTarkovApiUrl = (): string => tarkovApiUrl.value() || DEFAULT_TARKOV_API_URL;
+
+const tasksQuery = gql`
+  {
+    tasks {
+      id
+      name
+      trader {
+        id
+        name
+      }
+      map {
+        id
+        name
+      }
+      kappaRequired
+      lightkeeperRequired
+      experience
+      minPlayerLevel
+      factionName
+      taskRequirements {
+        task {
+          id
+          name
+        }
+        status
+      }
+      traderRequirements {
+        trader {
+          id
+          name
+        }
+        requirementType
+        value
+      }
+      objectives {
+        id
+        type
+        description
+        optional
+        maps {
+          id
+        }
+        ... on TaskObjectiveItem {
+          item {
+            id
+            name
+            shortName
+          }
+          count
+          foundInRaid
+        }
+      }
+      failConditions {
+        id
+        type
+        ... on TaskObjectiveTaskStatus {
+          task {
+            id
+          }
+          status
+        }
+      }
+    }
+  }
+`;
+
+const hideoutQuery = gql`
+  {
+    hideoutStations {
+      id
+      name
+      normalizedName
+      levels {
+        id
+        level
+        constructionTime
+        itemRequirements {
+          id
+          item {
+            id
+            name
+            shortName
+          }
+          count
+          attributes {
+            type
+            name
+            value
+          }
+        }
+        stationLevelRequirements {
+          station {
+            id
+          }
+          level
+        }
+        traderRequirements {
+          trader {
+            id
+          }
+          requirementType
+          value
+        }
+      }
+    }
+  }
+`;
+
+// Replaces the data field of a tarkovdata document. `version` is incremented and `updatedAt`
+// set on every write so cached copies (see utils/dataLoaders.ts) are reloaded; merging keeps
+// the previous version to increment from.
+async function storeTarkovdataDoc(doc: string, field: string, data: unknown[]): Promise<void> {
+  const db: Firestore = admin.firestore();
+  // Firestore rejects undefined values, which the API returns for some optional fields
+  const stored: unknown[] = JSON.parse(JSON.stringify(data));
+  await db
+    .collection('tarkovdata')
+    .doc(doc)
+    .set(
+      {
+        [field]: stored,
+        version: admin.firestore.FieldValue.increment(1),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+}
+
+// Fetches, normalizes and stores one tarkovdata document. Failures are logged rather than
+// thrown so one document failing does not stop the rest of the scheduled fetch, and an empty
+// result never replaces the stored data.
+async function syncTarkovdataDoc(
+  doc: string,
+  field: string,
+  fetchData: () => Promise<unknown[]>
+): Promise<number | undefined> {
+  let data: unknown[];
+  try {
+    data = await fetchData();
+  } catch (e: unknown) {
+    logger.error(
+      `Failed to retrieve ${doc} from Tarkov API:`,
+      e instanceof Error ? e.message : String(e)
+    );
+    return undefined;
+  }
+  if (data.length === 0) {
+    logger.error(`No ${doc} received from Tarkov API to save.`);
+    return undefined;
+  }
+  try {
+    await storeTarkovdataDoc(doc, field, data);
+    logger.log(`Successfully saved ${data.length} ${field} to tarkovdata/${doc}.`);
+    return data.length;
+  } catch (e: unknown) {
+    logger.error(`Failed to save ${doc} to Firestore:`, e instanceof Error ? e.message : String(e));
+    return undefined;
+  }
+}
+
+export const syncTaskData = (): Promise<number | undefined> =>
+  syncTarkovdataDoc('tasks', 'tasks', async () => {
+    const data = await request<{ tasks?: (RawTask | null)[] }>(getTarkovApiUrl(), tasksQuery);
+    return normalizeTasks(data.tasks);
+  });
+
+export const syncHideoutData = (): Promise<number | undefined> =>
+  syncTarkovdataDoc('hideout', 'hideoutStations', async () => {
+    const data = await request<{ hideoutStations?: (RawHideoutStation | null)[] }>(
+      getTarkovApiUrl(),
+      hideoutQuery
+    );
+    return normalizeHideoutStations(data.hideoutStations);
+  });
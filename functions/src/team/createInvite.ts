@@ -0,0 +1,69 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import UIDGenerator from 'uid-generator';
+import { Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { getTeamRole, canManageTeam } from './roles.js';
+import { TeamInviteDocData, parseInviteOptions } from './invites.js';
+
+interface CreateInviteRequestData {
+  expiresInHours?: unknown;
+  maxUses?: unknown;
+}
+
+// Creates an invite code for the caller's team. Unlike the team password, an invite can expire,
+// run out of uses and be revoked, so a leaked link stops working.
+async function _createTeamInviteLogic(
+  request: CallableRequest<CreateInviteRequestData>
+): Promise<{ team: string; code: string; expiresAt: number | null }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const { expiresInHours, maxUses } = parseInviteOptions(request.data);
+  const uidgen = new UIDGenerator(96, UIDGenerator.BASE62);
+  try {
+    const code = await uidgen.generate();
+    const expiresAt =
+      expiresInHours === null ? null : Timestamp.fromMillis(Date.now() + expiresInHours * 3600000);
+    const team = await db.runTransaction(async (transaction: Transaction) => {
+      const systemDoc = await transaction.get(db.collection('system').doc(ownerUid));
+      const teamId = systemDoc.data()?.team;
+      if (!teamId) {
+        throw new HttpsError('failed-precondition', 'User is not in a team.');
+      }
+      const teamRef = db.collection('team').doc(teamId);
+      const teamDoc = await transaction.get(teamRef);
+      if (!canManageTeam(getTeamRole(teamDoc.data(), ownerUid))) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the team owner and admins can create invites.'
+        );
+      }
+      const inviteData: TeamInviteDocData = {
+        createdBy: ownerUid,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        expiresAt,
+        maxUses,
+        uses: 0,
+        revoked: false,
+      };
+      transaction.set(teamRef.collection('invites').doc(code), inviteData);
+      return teamId as string;
+    });
+    logger.log('Created team invite', { owner: ownerUid, team, expiresInHours, maxUses });
+    return { team, code, expiresAt: expiresAt?.toMillis() ?? null };
+  } catch (e: unknown) {
+    logger.error('Failed to create team invite', {
+      owner: ownerUid,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred while creating the invite.');
+  }
+}
+export const createTeamInvite = onCall(_createTeamInviteLogic);
@@ -0,0 +1,68 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+
+// Invites live in team/{teamId}/invites/{code}, so the code is the document ID
+export interface TeamInviteDocData {
+  createdBy: string;
+  createdAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+  expiresAt: admin.firestore.Timestamp | null; // null never expires
+  maxUses: number | null; // null is unlimited, 1 is single-use
+  uses: number;
+  revoked: boolean;
+}
+export interface TeamInviteOptions {
+  expiresInHours: number | null;
+  maxUses: number | null;
+}
+
+const DEFAULT_EXPIRY_HOURS = 24;
+const MAX_EXPIRY_HOURS = 30 * 24;
+const MAX_USES = 100;
+
+// Reads the expiry and use limit of a new invite. Without options an invite lasts a day and can be
+// used any number of times; null asks for no limit explicitly.
+export function parseInviteOptions(
+  data: { expiresInHours?: unknown; maxUses?: unknown } | undefined
+): TeamInviteOptions {
+  const expiresInHours =
+    data?.expiresInHours === undefined ? DEFAULT_EXPIRY_HOURS : data.expiresInHours;
+  if (
+    expiresInHours !== null &&
+    (typeof expiresInHours !== 'number' ||
+      !Number.isInteger(expiresInHours) ||
+      expiresInHours < 1 ||
+      expiresInHours > MAX_EXPIRY_HOURS)
+  ) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Invalid invite parameters: expiresInHours must be null or 1 to ${MAX_EXPIRY_HOURS}.`
+    );
+  }
+  const maxUses = data?.maxUses ?? null;
+  if (
+    maxUses !== null &&
+    (typeof maxUses !== 'number' || !Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_USES)
+  ) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Invalid invite parameters: maxUses must be null or 1 to ${MAX_USES}.`
+    );
+  }
+  return { expiresInHours: expiresInHours as number | null, maxUses: maxUses as number | null };
+}
+
+// Throws when the invite can no longer be used to join the team
+export function assertInviteUsable(invite: TeamInviteDocData | undefined, now: number): void {
+  if (!invite) {
+    throw new HttpsError('not-found', "Invite doesn't exist");
+  }
+  if (invite.revoked) {
+    throw new HttpsError('failed-precondition', 'Invite has been revoked');
+  }
+  if (invite.expiresAt && invite.expiresAt.toMillis() <= now) {
+    throw new HttpsError('failed-precondition', 'Invite has expired');
+  }
+  if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+    throw new HttpsError('failed-precondition', 'Invite has been used up');
+  }
+}
@@ -0,0 +1,77 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { getTeamRole } from './roles.js';
+
+interface MemberRoleRequestData {
+  member?: unknown;
+}
+interface TeamDocData {
+  owner?: string;
+  admins?: string[];
+  members?: string[];
+}
+
+// Makes a member of the caller's team an admin, or an admin a member again. Only the owner can
+// change roles, and the owner's own role never changes.
+async function _setMemberRoleLogic(
+  request: CallableRequest<MemberRoleRequestData>,
+  role: 'admin' | 'member'
+): Promise<{ member: string; role: 'admin' | 'member' }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const member = request.data?.member;
+  if (typeof member !== 'string' || member.length === 0) {
+    throw new HttpsError('invalid-argument', 'Invalid role parameters: member must be a user ID.');
+  }
+  if (member === ownerUid) {
+    throw new HttpsError('invalid-argument', "You can't change your own role.");
+  }
+  try {
+    await db.runTransaction(async (transaction: Transaction) => {
+      const systemDoc = await transaction.get(db.collection('system').doc(ownerUid));
+      const teamId = systemDoc.data()?.team;
+      if (!teamId) {
+        throw new HttpsError('failed-precondition', 'User is not in a team.');
+      }
+      const teamRef = db.collection('team').doc(teamId);
+      const teamDoc = await transaction.get(teamRef);
+      const teamData = teamDoc.data() as TeamDocData | undefined;
+      if (getTeamRole(teamData, ownerUid) !== 'owner') {
+        throw new HttpsError('permission-denied', 'Only the team owner can change roles.');
+      }
+      if (!getTeamRole(teamData, member)) {
+        throw new HttpsError('not-found', 'User not found in team.');
+      }
+      transaction.update(teamRef, {
+        admins:
+          role === 'admin'
+            ? admin.firestore.FieldValue.arrayUnion(member)
+            : admin.firestore.FieldValue.arrayRemove(member),
+      });
+    });
+    logger.log('Changed team member role', { owner: ownerUid, member, role });
+    return { member, role };
+  } catch (e: unknown) {
+    logger.error('Failed to change team member role', {
+      owner: ownerUid,
+      member,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred while changing the role.');
+  }
+}
+export const promoteTeamMember = onCall((request: CallableRequest<MemberRoleRequestData>) =>
+  _setMemberRoleLogic(request, 'admin')
+);
+export const demoteTeamMember = onCall((request: CallableRequest<MemberRoleRequestData>) =>
+  _setMemberRoleLogic(request, 'member')
+);
@@ -0,0 +1,61 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { getTeamRole, canManageTeam } from './roles.js';
+
+interface RevokeInviteRequestData {
+  code?: unknown;
+}
+
+// Revokes an invite of the caller's team. The invite is kept, marked revoked, so the team can see
+// how often it was used.
+async function _revokeTeamInviteLogic(
+  request: CallableRequest<RevokeInviteRequestData>
+): Promise<{ revoked: boolean }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const code = request.data?.code;
+  if (typeof code !== 'string' || code.length === 0) {
+    throw new HttpsError('invalid-argument', 'Invalid invite parameters: code must be a string.');
+  }
+  try {
+    await db.runTransaction(async (transaction: Transaction) => {
+      const systemDoc = await transaction.get(db.collection('system').doc(ownerUid));
+      const teamId = systemDoc.data()?.team;
+      if (!teamId) {
+        throw new HttpsError('failed-precondition', 'User is not in a team.');
+      }
+      const teamRef = db.collection('team').doc(teamId);
+      const teamDoc = await transaction.get(teamRef);
+      if (!canManageTeam(getTeamRole(teamDoc.data(), ownerUid))) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the team owner and admins can revoke invites.'
+        );
+      }
+      const inviteRef = teamRef.collection('invites').doc(code);
+      const inviteDoc = await transaction.get(inviteRef);
+      if (!inviteDoc.exists) {
+        throw new HttpsError('not-found', "Invite doesn't exist");
+      }
+      transaction.update(inviteRef, { revoked: true });
+    });
+    logger.log('Revoked team invite', { owner: ownerUid });
+    return { revoked: true };
+  } catch (e: unknown) {
+    logger.error('Failed to revoke team invite', {
+      owner: ownerUid,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred while revoking the invite.');
+  }
+}
+export const revokeTeamInvite = onCall(_revokeTeamInviteLogic);
@@ -0,0 +1,21 @@
+// Roles within a team. The owner created the team and is the only one who can change roles;
+// admins are members the owner delegated team management (kicking, password, settings) to.
+export type TeamRole = 'owner' | 'admin' | 'member';
+
+interface TeamRoleData {
+  owner?: string;
+  admins?: string[];
+  members?: string[];
+}
+
+// The role of the user in the team, or null when the user is not in it
+export function getTeamRole(teamData: TeamRoleData | undefined, uid: string): TeamRole | null {
+  if (!teamData) return null;
+  if (teamData.owner === uid) return 'owner';
+  if (!teamData.members?.includes(uid)) return null;
+  return teamData.admins?.includes(uid) ? 'admin' : 'member';
+}
+
+// Whether the role may kick members, change the password and edit the team settings
+export const canManageTeam = (role: TeamRole | null): boolean =>
+  role === 'owner' || role === 'admin';
@@ -0,0 +1,101 @@
+import functions from 'firebase-functions';
+import admin from 'firebase-admin';
+import { Request, Response } from 'express';
+import { Firestore, DocumentReference, DocumentSnapshot } from 'firebase-admin/firestore';
+import { hasPermission } from '../auth/permissions.js';
+
+interface SystemDocData {
+  team?: string | null;
+}
+interface TeamDocData {
+  owner?: string;
+  maximumMembers?: number;
+  members?: string[];
+  createdAt?: admin.firestore.Timestamp;
+}
+interface AuthenticatedRequest extends Request {
+  apiToken?: { owner: string; permissions: string[] };
+}
+
+/**
+ * @openapi
+ * /team:
+ *   get:
+ *     summary: "Returns metadata of the player's team"
+ *     description: "Team owner, size limit and members with their display names. Does not include
+ *       any progress; use /team/progress for that."
+ *     tags:
+ *       - "Team"
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: "Team metadata retrieved successfully."
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   $ref: "#/components/schemas/Team"
+ *       401:
+ *         description: "Unauthorized. Invalid token or missing 'TM' permission."
+ *       404:
+ *         description: "The player is not in a team."
+ *       500:
+ *         description: "Internal server error."
+ */
+const getTeamInfo = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const ownerId = req.apiToken?.owner;
+  if (ownerId && hasPermission(req.apiToken, 'TM')) {
+    const db: Firestore = admin.firestore();
+    try {
+      const systemDoc: DocumentSnapshot<SystemDocData> = await (
+        db.collection('system').doc(ownerId) as DocumentReference<SystemDocData>
+      ).get();
+      const teamId = systemDoc.data()?.team;
+      const teamDoc: DocumentSnapshot<TeamDocData> | null = teamId
+        ? await (db.collection('team').doc(teamId) as DocumentReference<TeamDocData>).get()
+        : null;
+      const teamData = teamDoc?.data();
+      if (!teamId || !teamData) {
+        res.status(404).send({ error: 'You are not in a team.' });
+        return;
+      }
+      const memberIds = teamData.members ?? [];
+      // Only the display name is read from each member's progress
+      const progressDocs =
+        memberIds.length > 0
+          ? await db.getAll(
+              ...memberIds.map((memberId) => db.collection('progress').doc(memberId)),
+              { fieldMask: ['displayName'] }
+            )
+          : [];
+      res.status(200).json({
+        data: {
+          id: teamId,
+          owner: teamData.owner ?? null,
+          maximumMembers: teamData.maximumMembers ?? null,
+          createdAt: teamData.createdAt?.toMillis() ?? null,
+          members: progressDocs.map((progressDoc) => ({
+            id: progressDoc.id,
+            displayName: progressDoc.get('displayName') ?? null,
+          })),
+        },
+        meta: { self: ownerId },
+      });
+    } catch (error: unknown) {
+      functions.logger.error('Error fetching team metadata:', {
+        error: error instanceof Error ? error.message : String(error),
+        userId: ownerId,
+      });
+      res.status(500).send({ error: 'Failed to retrieve team metadata.' });
+    }
+  } else {
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+  }
+};
+
+export default {
+  getTeamInfo,
+};
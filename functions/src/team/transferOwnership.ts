@@ -0,0 +1,126 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { getTeamRole } from './roles.js';
+
+export type OwnershipChangeReason = 'transferred' | 'owner-left';
+
+interface TransferOwnershipRequestData {
+  newOwner?: unknown;
+}
+interface TeamDocData {
+  owner?: string;
+  admins?: string[];
+  members?: string[];
+}
+// Kept on the team document so the remaining members can be told who owns the team now
+export interface OwnershipChange {
+  from: string;
+  // Display name of the previous owner, who is no longer in the team to look it up once they left
+  fromName: string | null;
+  to: string;
+  reason: OwnershipChangeReason;
+  changedAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+}
+
+// Members are appended as they join, so the first one after the owner has been in the team longest
+export function longestStandingMember(teamData: TeamDocData): string | null {
+  return teamData.members?.find((member) => member !== teamData.owner) ?? null;
+}
+
+// Reads the display name from the user's progress document, within the transaction
+export async function displayNameOf(
+  transaction: Transaction,
+  db: Firestore,
+  userId: string
+): Promise<string | null> {
+  const progressDoc = await transaction.get(db.collection('progress').doc(userId));
+  const displayName = progressDoc.data()?.displayName;
+  return typeof displayName === 'string' && displayName.length > 0 ? displayName : null;
+}
+
+// The team document fields that hand the team to newOwner. A previous owner who stays in the team
+// becomes an admin; one who left is removed from it.
+export function ownershipTransferUpdate(
+  teamData: TeamDocData,
+  newOwner: string,
+  reason: OwnershipChangeReason,
+  previousOwnerName: string | null
+): Required<TeamDocData> & { ownershipChange: OwnershipChange } {
+  const previousOwner = teamData.owner ?? '';
+  const admins = (teamData.admins ?? []).filter(
+    (member) => member !== newOwner && member !== previousOwner
+  );
+  const members = teamData.members ?? [];
+  return {
+    owner: newOwner,
+    admins: reason === 'transferred' ? [...admins, previousOwner] : admins,
+    members:
+      reason === 'transferred' ? members : members.filter((member) => member !== previousOwner),
+    ownershipChange: {
+      from: previousOwner,
+      fromName: previousOwnerName,
+      to: newOwner,
+      reason,
+      changedAt: admin.firestore.FieldValue.serverTimestamp(),
+    },
+  };
+}
+
+// Hands the caller's team to another member. Only the owner can do this.
+async function _transferTeamOwnershipLogic(
+  request: CallableRequest<TransferOwnershipRequestData>
+): Promise<{ owner: string }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const newOwner = request.data?.newOwner;
+  if (typeof newOwner !== 'string' || newOwner.length === 0) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Invalid transfer parameters: newOwner must be a user ID.'
+    );
+  }
+  if (newOwner === ownerUid) {
+    throw new HttpsError('invalid-argument', 'You already own the team.');
+  }
+  try {
+    await db.runTransaction(async (transaction: Transaction) => {
+      const systemDoc = await transaction.get(db.collection('system').doc(ownerUid));
+      const teamId = systemDoc.data()?.team;
+      if (!teamId) {
+        throw new HttpsError('failed-precondition', 'User is not in a team.');
+      }
+      const teamRef = db.collection('team').doc(teamId);
+      const teamDoc = await transaction.get(teamRef);
+      const teamData = teamDoc.data() as TeamDocData | undefined;
+      if (getTeamRole(teamData, ownerUid) !== 'owner') {
+        throw new HttpsError('permission-denied', 'Only the team owner can transfer ownership.');
+      }
+      if (!getTeamRole(teamData, newOwner)) {
+        throw new HttpsError('not-found', 'User not found in team.');
+      }
+      const ownerName = await displayNameOf(transaction, db, ownerUid);
+      transaction.update(teamRef, {
+        ...ownershipTransferUpdate(teamData!, newOwner, 'transferred', ownerName),
+      });
+    });
+    logger.log('Transferred team ownership', { owner: ownerUid, newOwner });
+    return { owner: newOwner };
+  } catch (e: unknown) {
+    logger.error('Failed to transfer team ownership', {
+      owner: ownerUid,
+      newOwner,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred while transferring ownership.');
+  }
+}
+export const transferTeamOwnership = onCall(_transferTeamOwnershipLogic);
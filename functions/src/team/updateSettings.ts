@@ -0,0 +1,140 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import UIDGenerator from 'uid-generator';
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { getTeamRole, canManageTeam } from './roles.js';
+
+const MAX_TEAM_MEMBERS = 50;
+const MAX_NAME_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+interface UpdateTeamSettingsRequestData {
+  regeneratePassword?: unknown;
+  maximumMembers?: unknown;
+  name?: unknown;
+  description?: unknown;
+}
+export interface TeamSettings {
+  password?: string;
+  maximumMembers?: number;
+  name?: string;
+  description?: string;
+}
+interface TeamDocData extends TeamSettings {
+  owner?: string;
+  admins?: string[];
+  members?: string[];
+}
+
+const invalidSettings = (message: string) =>
+  new HttpsError('invalid-argument', `Invalid team settings parameters: ${message}`);
+
+// Reads the settings to change; anything not given keeps its current value
+export function parseTeamSettings(
+  data: UpdateTeamSettingsRequestData | undefined
+): Omit<TeamSettings, 'password'> & { regeneratePassword: boolean } {
+  const settings: Omit<TeamSettings, 'password'> & { regeneratePassword: boolean } = {
+    regeneratePassword: false,
+  };
+  if (data?.regeneratePassword !== undefined) {
+    if (typeof data.regeneratePassword !== 'boolean') {
+      throw invalidSettings('regeneratePassword must be a boolean.');
+    }
+    settings.regeneratePassword = data.regeneratePassword;
+  }
+  if (data?.maximumMembers !== undefined) {
+    const maximumMembers = data.maximumMembers;
+    if (
+      typeof maximumMembers !== 'number' ||
+      !Number.isInteger(maximumMembers) ||
+      maximumMembers < 1 ||
+      maximumMembers > MAX_TEAM_MEMBERS
+    ) {
+      throw invalidSettings(`maximumMembers must be a whole number from 1 to ${MAX_TEAM_MEMBERS}.`);
+    }
+    settings.maximumMembers = maximumMembers;
+  }
+  if (data?.name !== undefined) {
+    if (typeof data.name !== 'string' || data.name.trim().length > MAX_NAME_LENGTH) {
+      throw invalidSettings(`name must be a string of at most ${MAX_NAME_LENGTH} characters.`);
+    }
+    settings.name = data.name.trim();
+  }
+  if (data?.description !== undefined) {
+    if (
+      typeof data.description !== 'string' ||
+      data.description.trim().length > MAX_DESCRIPTION_LENGTH
+    ) {
+      throw invalidSettings(
+        `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters.`
+      );
+    }
+    settings.description = data.description.trim();
+  }
+  return settings;
+}
+
+// Changes the settings of the caller's team: a new password (which breaks every invite link that
+// carries the old one), the size limit, and the team's name and description.
+async function _updateTeamSettingsLogic(
+  request: CallableRequest<UpdateTeamSettingsRequestData>
+): Promise<TeamSettings> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const { regeneratePassword, ...settings } = parseTeamSettings(request.data);
+  if (!regeneratePassword && Object.keys(settings).length === 0) {
+    throw invalidSettings('nothing to update.');
+  }
+  const update: TeamSettings = { ...settings };
+  try {
+    if (regeneratePassword) {
+      // Same generator as team creation
+      const passGen = new UIDGenerator(48, UIDGenerator.BASE62);
+      update.password = await passGen.generate();
+    }
+    await db.runTransaction(async (transaction: Transaction) => {
+      const systemDoc = await transaction.get(db.collection('system').doc(ownerUid));
+      const teamId = systemDoc.data()?.team;
+      if (!teamId) {
+        throw new HttpsError('failed-precondition', 'User is not in a team.');
+      }
+      const teamRef = db.collection('team').doc(teamId);
+      const teamDoc = await transaction.get(teamRef);
+      const teamData = teamDoc.data() as TeamDocData | undefined;
+      if (!canManageTeam(getTeamRole(teamData, ownerUid))) {
+        throw new HttpsError(
+          'permission-denied',
+          'Only the team owner and admins can change team settings.'
+        );
+      }
+      const memberCount = teamData?.members?.length ?? 0;
+      if (update.maximumMembers !== undefined && update.maximumMembers < memberCount) {
+        throw new HttpsError(
+          'failed-precondition',
+          `The team already has ${memberCount} members, so the limit can't be lower.`
+        );
+      }
+      transaction.update(teamRef, { ...update });
+    });
+    logger.log('Updated team settings', {
+      owner: ownerUid,
+      changed: Object.keys(update),
+    });
+    return update;
+  } catch (e: unknown) {
+    logger.error('Failed to update team settings', {
+      owner: ownerUid,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred while updating team settings.');
+  }
+}
+export const updateTeamSettings = onCall(_updateTeamSettingsLogic);
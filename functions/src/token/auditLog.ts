@@ -0,0 +1,81 @@
+import functions from 'firebase-functions';
+import admin from 'firebase-admin';
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+
+// Each token keeps its recent calls in token/{tokenId}/audit. Entries carry an `expiresAt`
+// for the Firestore TTL policy on that field (firestore.indexes.json), which deletes them
+// once AUDIT_LOG_RETENTION_DAYS have passed.
+export const AUDIT_LOG_RETENTION_DAYS = 30;
+const HASH_LENGTH = 12;
+
+interface ApiToken {
+  owner: string;
+  tokenId: string;
+}
+interface AuthenticatedRequest extends Request {
+  apiToken?: ApiToken;
+}
+export interface AuditLogEntry {
+  route: string;
+  method: string;
+  status: number;
+  timestamp: admin.firestore.FieldValue;
+  expiresAt: Timestamp;
+  ipHash: string | null;
+  userAgentHash: string | null;
+}
+
+// IPs and user agents are only kept as truncated hashes, salted with the token ID so the same
+// client produces different hashes under different tokens. They are enough to notice calls
+// coming from an unexpected source, without storing who made them.
+function truncatedHash(tokenId: string, value: string | undefined): string | null {
+  if (!value) return null;
+  return createHash('sha256').update(`${tokenId}:${value}`).digest('hex').substring(0, HASH_LENGTH);
+}
+
+function clientIp(req: Request): string | undefined {
+  const forwarded = req.get('x-forwarded-for');
+  return forwarded ? forwarded.split(',')[0].trim() : req.ip;
+}
+
+// Route pattern (e.g. /api/progress/task/:taskId) rather than the concrete path, so IDs in
+// the URL are not logged. Calls rejected before routing (e.g. 401, 429) have no route and are
+// logged under their API version, e.g. /api/v2/*.
+function routePattern(req: Request): string {
+  if (req.route?.path) return `${req.baseUrl}${req.route.path}`;
+  const apiPrefix = /^\/api(\/v\d+)?(?=\/|$)/.exec(req.path)?.[0] ?? '';
+  return `${req.baseUrl}${apiPrefix}/*`;
+}
+
+async function recordAuditEntry(req: Request, res: Response, apiToken: ApiToken): Promise<void> {
+  const db: Firestore = admin.firestore();
+  const entry: AuditLogEntry = {
+    route: routePattern(req),
+    method: req.method,
+    status: res.statusCode,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    expiresAt: Timestamp.fromMillis(Date.now() + AUDIT_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+    ipHash: truncatedHash(apiToken.tokenId, clientIp(req)),
+    userAgentHash: truncatedHash(apiToken.tokenId, req.get('user-agent')),
+  };
+  await db.collection('token').doc(apiToken.tokenId).collection('audit').add(entry);
+}
+
+// Records every call made with an API token once its response has been sent, so the log adds
+// no latency to the call. Registered before verifyBearer so rejected calls (e.g. rate limited)
+// are recorded as well. The log is best effort: a failed write is only logged.
+export const auditTokenUsage = (req: Request, res: Response, next: NextFunction): void => {
+  res.on('finish', () => {
+    const apiToken = (req as AuthenticatedRequest).apiToken;
+    if (!apiToken?.tokenId) return;
+    recordAuditEntry(req, res, apiToken).catch((error: unknown) => {
+      functions.logger.error('Failed to record token audit log entry', {
+        error: error instanceof Error ? error.message : error,
+        tokenId: apiToken.tokenId,
+      });
+    });
+  });
+  next();
+};
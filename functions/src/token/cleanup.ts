@@ -0,0 +1,43 @@
+import * as logger from 'firebase-functions/logger';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import admin from 'firebase-admin';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+// Each expired token needs two writes (token doc and the owner's system doc)
+const TOKENS_PER_BATCH = 200;
+// Removes tokens whose expiry has passed, including rotated tokens whose grace period ended
+export const cleanupExpiredTokens = onSchedule('every day 03:00', async () => {
+  const db: Firestore = admin.firestore();
+  let removed = 0;
+  try {
+    for (;;) {
+      const expired = await db
+        .collection('token')
+        .where('expiresAt', '<=', Timestamp.now())
+        .limit(TOKENS_PER_BATCH)
+        .get();
+      if (expired.empty) break;
+      const batch = db.batch();
+      expired.docs.forEach((tokenDoc) => {
+        const owner = tokenDoc.get('owner');
+        batch.delete(tokenDoc.ref);
+        if (typeof owner === 'string') {
+          batch.set(
+            db.collection('system').doc(owner),
+            { tokens: admin.firestore.FieldValue.arrayRemove(tokenDoc.id) },
+            { merge: true }
+          );
+        }
+      });
+      await batch.commit();
+      // Removing the token doc does not remove its audit log subcollection
+      await Promise.all(
+        expired.docs.map((tokenDoc) => db.recursiveDelete(tokenDoc.ref.collection('audit')))
+      );
+      removed += expired.size;
+      if (expired.size < TOKENS_PER_BATCH) break;
+    }
+    logger.log('Removed expired API tokens', { removed });
+  } catch (error) {
+    logger.error('Failed to remove expired API tokens', { error, removed });
+  }
+});
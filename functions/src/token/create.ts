@@ -2,6 +2,8 @@ import * as logger from 'firebase-functions/logger';
 import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
 import admin from 'firebase-admin';
 import UIDGenerator from 'uid-generator';
+import { hashToken, tokenPrefix } from './tokenHash.js';
+import { PERMISSIONS, isPermission } from '../auth/permissions.js';
 import {
   Firestore,
   DocumentReference,
@@ -12,6 +14,7 @@ import {
 interface CreateTokenData {
   note: string;
   permissions: string[];
+  expiresAt?: number | null; // Milliseconds since the epoch; omit for a token that never expires
 }
 interface SystemDocData {
   tokens?: string[];
@@ -20,12 +23,55 @@ interface TokenDocData {
   owner: string;
   note: string;
   permissions: string[];
+  prefix: string;
   createdAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+  expiresAt?: admin.firestore.Timestamp;
+}
+interface GeneratedToken {
+  secret: string; // Returned to the user once, never stored
+  tokenId: string; // SHA-256 of the secret, used as the document ID
+}
+// Generates a token whose hash is not already in use, reading candidates inside the transaction
+export async function generateUniqueToken(
+  transaction: Transaction,
+  tokenCollectionRef: CollectionReference,
+  ownerUid: string
+): Promise<GeneratedToken> {
+  let tokenExists = true;
+  let attempts = 0;
+  const uidgen = new UIDGenerator(128);
+  let potentialToken = '';
+  while (tokenExists && attempts < 5) {
+    potentialToken = await uidgen.generate();
+    const existingTokenDoc: DocumentSnapshot = await transaction.get(
+      tokenCollectionRef.doc(hashToken(potentialToken))
+    );
+    tokenExists = existingTokenDoc.exists;
+    attempts++;
+  }
+  if (tokenExists) {
+    logger.error('Failed to generate a unique token after multiple attempts.', {
+      owner: ownerUid,
+    });
+    throw new HttpsError('internal', 'Failed to generate a unique token.');
+  }
+  return { secret: potentialToken, tokenId: hashToken(potentialToken) };
+}
+// Validates an optional expiry timestamp (milliseconds) and converts it for storage
+export function parseTokenExpiry(expiresAt: unknown): admin.firestore.Timestamp | undefined {
+  if (expiresAt == null) return undefined;
+  if (typeof expiresAt !== 'number' || !Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Invalid token parameters: expiresAt must be a future timestamp in milliseconds.'
+    );
+  }
+  return admin.firestore.Timestamp.fromMillis(expiresAt);
 }
 // Core logic extracted into a separate, testable function
 async function _createTokenLogic(
   request: CallableRequest<CreateTokenData>
-): Promise<{ token: string }> {
+): Promise<{ token: string; tokenId: string }> {
   const db: Firestore = admin.firestore();
   const ownerUid = request.auth?.uid;
   logger.log('Starting create token logic (v2)', {
@@ -47,6 +93,14 @@ async function _createTokenLogic(
       'Invalid token parameters: note and permissions array are required.'
     );
   }
+  if (!request.data.permissions.every(isPermission)) {
+    logger.warn('Unknown token permissions received.', { data: request.data });
+    throw new HttpsError(
+      'invalid-argument',
+      `Invalid token parameters: permissions must be among ${PERMISSIONS.join(', ')}.`
+    );
+  }
+  const expiresAt = parseTokenExpiry(request.data.expiresAt);
   const systemRef: DocumentReference<SystemDocData> = db
     .collection('system')
     .doc(ownerUid) as DocumentReference<SystemDocData>;
@@ -54,7 +108,7 @@ async function _createTokenLogic(
     'token'
   ) as CollectionReference<TokenDocData>;
   try {
-    let generatedToken = '';
+    let generatedToken: GeneratedToken = { secret: '', tokenId: '' };
     await db.runTransaction(async (transaction: Transaction) => {
       const systemDoc: DocumentSnapshot<SystemDocData> = await transaction.get(systemRef);
       const systemData = systemDoc.data();
@@ -62,49 +116,36 @@ async function _createTokenLogic(
       if (systemData?.tokens && systemData.tokens.length >= 5) {
         throw new HttpsError('resource-exhausted', 'You have the maximum number of tokens (5).');
       }
-      let tokenExists = true;
-      let attempts = 0;
-      const uidgen = new UIDGenerator(128);
-      let potentialToken = '';
-      let potentialTokenRef: DocumentReference<TokenDocData>;
-      while (tokenExists && attempts < 5) {
-        potentialToken = await uidgen.generate();
-        potentialTokenRef = tokenCollectionRef.doc(potentialToken);
-        const existingTokenDoc: DocumentSnapshot = await transaction.get(potentialTokenRef);
-        tokenExists = existingTokenDoc.exists;
-        attempts++;
-      }
-      if (tokenExists) {
-        logger.error('Failed to generate a unique token after multiple attempts.', {
-          owner: ownerUid,
-        });
-        throw new HttpsError('internal', 'Failed to generate a unique token.');
-      }
-      generatedToken = potentialToken;
+      generatedToken = await generateUniqueToken(transaction, tokenCollectionRef, ownerUid);
       const newTokenData: TokenDocData = {
         owner: ownerUid,
         note: request.data.note,
         permissions: request.data.permissions,
+        prefix: tokenPrefix(generatedToken.secret),
         createdAt: admin.firestore.FieldValue.serverTimestamp(),
       };
-      transaction.set(potentialTokenRef!, newTokenData);
+      if (expiresAt) {
+        newTokenData.expiresAt = expiresAt;
+      }
+      transaction.set(tokenCollectionRef.doc(generatedToken.tokenId), newTokenData);
       if (systemDoc.exists) {
         transaction.update(systemRef, {
-          tokens: admin.firestore.FieldValue.arrayUnion(generatedToken),
+          tokens: admin.firestore.FieldValue.arrayUnion(generatedToken.tokenId),
         });
       } else {
         // If the system document doesn't exist, create it with the new token
         const newSystemData: SystemDocData = {
-          tokens: [generatedToken],
+          tokens: [generatedToken.tokenId],
         };
         transaction.set(systemRef, newSystemData);
       }
     });
     logger.log('Created token successfully (v2)', {
       owner: ownerUid,
-      token: generatedToken,
+      tokenId: generatedToken.tokenId,
     });
-    return { token: generatedToken };
+    // The secret is only ever returned here; afterwards only its hash and prefix are stored
+    return { token: generatedToken.secret, tokenId: generatedToken.tokenId };
   } catch (e: unknown) {
     let errorMessage = 'Unknown error';
     let errorCode = 'internal';
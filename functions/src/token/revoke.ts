@@ -9,9 +9,10 @@ import {
   Transaction,
 } from 'firebase-admin/firestore';
 import { HttpsError, FunctionsErrorCode } from 'firebase-functions/v2/https'; // Keep HttpsError for internal logic
+import { getStatusFromHttpsErrorCode } from '../utils/httpErrors.js';
 // Define interfaces for data structures
 interface RevokeTokenData {
-  token: string;
+  token: string; // Token ID (the hash stored in system/{uid}.tokens), not the secret
 }
 interface SystemDocData {
   tokens?: string[];
@@ -19,46 +20,6 @@ interface SystemDocData {
 interface TokenDocData {
   owner: string;
 }
-// Helper function to map HttpsError codes to HTTP status codes (similar to functions/src/index.ts)
-function getStatusFromHttpsErrorCode(code: FunctionsErrorCode): number {
-  switch (code) {
-    case 'ok':
-      return 200;
-    case 'cancelled':
-      return 499;
-    case 'unknown':
-      return 500;
-    case 'invalid-argument':
-      return 400;
-    case 'deadline-exceeded':
-      return 504;
-    case 'not-found':
-      return 404;
-    case 'already-exists':
-      return 409;
-    case 'permission-denied':
-      return 403;
-    case 'resource-exhausted':
-      return 429;
-    case 'failed-precondition':
-      return 400;
-    case 'aborted':
-      return 409;
-    case 'out-of-range':
-      return 400;
-    case 'unauthenticated':
-      return 401;
-    case 'internal':
-      return 500;
-    case 'unavailable':
-      return 503;
-    case 'data-loss':
-      return 500;
-    default:
-      logger.warn('Unknown HttpsError code received in revokeToken:', code);
-      return 500;
-  }
-}
 // Core logic adjusted to accept uid and data directly
 async function _revokeTokenLogic(
   ownerUid: string,
@@ -121,6 +82,12 @@ async function _revokeTokenLogic(
       owner: ownerUid,
       token: data.token,
     });
+    // The audit log is not part of the transaction; a failure here leaves only orphaned entries
+    await db
+      .recursiveDelete(tokenRef.collection('audit'))
+      .catch((error: unknown) =>
+        logger.error('Failed to delete audit log of revoked token', { token: data.token, error })
+      );
     return { revoked: true };
   } catch (e: unknown) {
     let errorMessage = 'Unknown error during token revocation';
@@ -0,0 +1,137 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import {
+  Firestore,
+  DocumentReference,
+  DocumentSnapshot,
+  Transaction,
+  CollectionReference,
+} from 'firebase-admin/firestore';
+import { generateUniqueToken, parseTokenExpiry } from './create.js';
+import { tokenPrefix } from './tokenHash.js';
+interface RotateTokenData {
+  token: string; // ID (hash) of the token to replace
+  gracePeriodSeconds?: number; // How long the old token keeps working; defaults to one day
+  expiresAt?: number | null; // Expiry of the replacement; defaults to the old token's lifetime
+}
+interface SystemDocData {
+  tokens?: string[];
+}
+interface TokenDocData {
+  owner: string;
+  note: string;
+  permissions: string[];
+  prefix?: string;
+  createdAt?: admin.firestore.Timestamp | admin.firestore.FieldValue;
+  expiresAt?: admin.firestore.Timestamp;
+  rotatedTo?: string;
+}
+const DEFAULT_GRACE_PERIOD_SECONDS = 24 * 60 * 60;
+const MAX_GRACE_PERIOD_SECONDS = 7 * 24 * 60 * 60;
+// Issues a replacement token with the same note and permissions. The old token keeps working
+// until the grace period ends, giving integrations time to switch over; it is then rejected
+// as expired and removed by the scheduled cleanup.
+async function _rotateTokenLogic(
+  request: CallableRequest<RotateTokenData>
+): Promise<{ token: string; tokenId: string; previousTokenExpiresAt: number }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  logger.log('Starting rotate token logic', { owner: ownerUid });
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const { token, gracePeriodSeconds = DEFAULT_GRACE_PERIOD_SECONDS } = request.data ?? {};
+  if (!token || typeof token !== 'string') {
+    throw new HttpsError('invalid-argument', 'Invalid token parameters: token is required.');
+  }
+  if (
+    !Number.isInteger(gracePeriodSeconds) ||
+    gracePeriodSeconds < 0 ||
+    gracePeriodSeconds > MAX_GRACE_PERIOD_SECONDS
+  ) {
+    throw new HttpsError(
+      'invalid-argument',
+      `Invalid grace period: must be between 0 and ${MAX_GRACE_PERIOD_SECONDS} seconds.`
+    );
+  }
+  const requestedExpiry = parseTokenExpiry(request.data.expiresAt);
+  const systemRef: DocumentReference<SystemDocData> = db
+    .collection('system')
+    .doc(ownerUid) as DocumentReference<SystemDocData>;
+  const tokenCollectionRef: CollectionReference<TokenDocData> = db.collection(
+    'token'
+  ) as CollectionReference<TokenDocData>;
+  const oldTokenRef = tokenCollectionRef.doc(token);
+  try {
+    let newToken = { secret: '', tokenId: '' };
+    let graceEndsAt = 0;
+    await db.runTransaction(async (transaction: Transaction) => {
+      const oldTokenDoc: DocumentSnapshot<TokenDocData> = await transaction.get(oldTokenRef);
+      const oldTokenData = oldTokenDoc.data();
+      if (!oldTokenDoc.exists || !oldTokenData) {
+        throw new HttpsError('not-found', 'Token not found.');
+      }
+      if (oldTokenData.owner !== ownerUid) {
+        throw new HttpsError(
+          'permission-denied',
+          'You do not have permission to rotate this token.'
+        );
+      }
+      const now = Date.now();
+      const oldExpiry = oldTokenData.expiresAt?.toMillis();
+      if (oldExpiry !== undefined && oldExpiry <= now) {
+        throw new HttpsError('failed-precondition', 'Expired tokens cannot be rotated.');
+      }
+      if (oldTokenData.rotatedTo) {
+        throw new HttpsError('failed-precondition', 'This token has already been rotated.');
+      }
+      newToken = await generateUniqueToken(transaction, tokenCollectionRef, ownerUid);
+      const newTokenData: TokenDocData = {
+        owner: ownerUid,
+        note: oldTokenData.note,
+        permissions: oldTokenData.permissions,
+        prefix: tokenPrefix(newToken.secret),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      const createdAt = (
+        oldTokenData.createdAt as admin.firestore.Timestamp | undefined
+      )?.toMillis();
+      if (requestedExpiry) {
+        newTokenData.expiresAt = requestedExpiry;
+      } else if (oldExpiry !== undefined && createdAt !== undefined) {
+        // Keep the same lifetime as the token being replaced
+        newTokenData.expiresAt = admin.firestore.Timestamp.fromMillis(now + oldExpiry - createdAt);
+      }
+      // The grace period never extends the old token's existing expiry
+      graceEndsAt = Math.min(now + gracePeriodSeconds * 1000, oldExpiry ?? Infinity);
+      transaction.set(tokenCollectionRef.doc(newToken.tokenId), newTokenData);
+      transaction.update(oldTokenRef, {
+        expiresAt: admin.firestore.Timestamp.fromMillis(graceEndsAt),
+        rotatedTo: newToken.tokenId,
+      });
+      transaction.set(
+        systemRef,
+        { tokens: admin.firestore.FieldValue.arrayUnion(newToken.tokenId) },
+        { merge: true }
+      );
+    });
+    logger.log('Rotated token successfully', { owner: ownerUid, graceEndsAt });
+    return {
+      token: newToken.secret,
+      tokenId: newToken.tokenId,
+      previousTokenExpiresAt: graceEndsAt,
+    };
+  } catch (e: unknown) {
+    logger.error('Failed to rotate token', {
+      owner: ownerUid,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred during token rotation.');
+  }
+}
+export const rotateToken = onCall(_rotateTokenLogic);
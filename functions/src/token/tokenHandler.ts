@@ -13,6 +13,7 @@ interface ApiTokenData {
 }
 interface ApiToken extends ApiTokenData {
   token: string;
+  tokenId: string;
 }
 // Extend the Express Request interface
 interface AuthenticatedRequest extends Request {
@@ -0,0 +1,15 @@
+import { createHash } from 'crypto';
+// API tokens are stored under the SHA-256 hash of the secret, so the `token` collection and
+// `system/{uid}.tokens` only ever hold hashes. The first few characters of the secret are
+// kept in the clear so users can tell their tokens apart.
+export const TOKEN_PREFIX_LENGTH = 6;
+export function hashToken(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+export function tokenPrefix(secret: string): string {
+  return secret.substring(0, TOKEN_PREFIX_LENGTH);
+}
+// Token document IDs written before hashing was introduced are the plaintext secrets
+export function isHashedTokenId(tokenId: string): boolean {
+  return /^[0-9a-f]{64}$/.test(tokenId);
+}
@@ -1,6 +1,12 @@
 import functions from 'firebase-functions';
 import admin from 'firebase-admin';
-import { Firestore, DocumentReference, DocumentSnapshot } from 'firebase-admin/firestore';
+import { defineInt } from 'firebase-functions/params';
+import {
+  Firestore,
+  DocumentReference,
+  DocumentSnapshot,
+  Timestamp,
+} from 'firebase-admin/firestore';
 
 // Define interfaces for the expected data structures
 // TODO: Refine these interfaces based on the actual structure of your Firestore documents
@@ -11,46 +17,78 @@ interface HideoutData {
   [moduleId: string]: unknown;
 }
 
-let cachedTaskData: TaskData | null | undefined = undefined;
-let cachedHideoutData: HideoutData | null | undefined = undefined;
+// How long a loaded tarkovdata document is served before its version is checked again
+const cacheTtlSeconds = defineInt('TARKOV_DATA_CACHE_TTL_SECONDS', { default: 300 });
 
-// Generic Firestore document loader with in-memory caching
+// The tarkovdata documents carry a `version` (incremented on every write) and/or `updatedAt`.
+// Once the TTL has passed, only those two fields are read; the full document is fetched again
+// only when they changed, so warm instances pick up new data without re-reading it each time.
+interface CacheEntry {
+  data: unknown;
+  version: string | null;
+  checkedAt: number;
+}
+export interface LoadOptions {
+  revalidate?: boolean; // Check the version even if the TTL has not passed yet
+}
+const VERSION_FIELDS = ['version', 'updatedAt'];
+const cache: { [doc: string]: CacheEntry | undefined } = {};
+
+function versionOf(snapshot: DocumentSnapshot): string | null {
+  const { version, updatedAt } = snapshot.data() ?? {};
+  if (typeof version === 'number' || typeof version === 'string') return `v${version}`;
+  if (updatedAt instanceof Timestamp) return `t${updatedAt.toMillis()}`;
+  return null;
+}
+
+// Firestore document loader with in-memory caching and version revalidation
 async function loadAndCache<T>(
-  cache: T | null | undefined,
-  // eslint-disable-next-line no-unused-vars
-  setCache: (unusedData: T | null) => void,
-  collection: string,
   doc: string,
-  errorLabel: string
+  errorLabel: string,
+  options: LoadOptions = {}
 ): Promise<T | null> {
+  const cached = cache[doc];
+  const now = Date.now();
+  if (cached && !options.revalidate && now - cached.checkedAt < cacheTtlSeconds.value() * 1000) {
+    return cached.data as T | null;
+  }
   const db: Firestore = admin.firestore();
-  if (cache !== undefined) return cache;
+  const ref: DocumentReference = db.collection('tarkovdata').doc(doc);
   try {
-    const ref: DocumentReference<T> = db.collection(collection).doc(doc) as DocumentReference<T>;
-    const snapshot: DocumentSnapshot<T> = await ref.get();
-    if (snapshot.exists) {
-      setCache(snapshot.data() ?? null);
-      return snapshot.data() ?? null;
-    } else {
+    if (cached?.version) {
+      const [versionSnapshot] = await db.getAll(ref, { fieldMask: VERSION_FIELDS });
+      if (versionSnapshot.exists && versionOf(versionSnapshot) === cached.version) {
+        cached.checkedAt = now;
+        return cached.data as T | null;
+      }
+    }
+    const snapshot: DocumentSnapshot = await ref.get();
+    if (!snapshot.exists) {
       functions.logger.error(`Error getting ${errorLabel}: Document does not exist`);
-      setCache(null);
-      return null;
+    } else if (cached) {
+      functions.logger.log(`Reloaded ${errorLabel}`, {
+        previousVersion: cached.version,
+        version: versionOf(snapshot),
+      });
     }
+    const data = (snapshot.data() as T | undefined) ?? null;
+    cache[doc] = { data, version: snapshot.exists ? versionOf(snapshot) : null, checkedAt: now };
+    return data;
   } catch (error) {
+    // Keep serving what we have rather than failing every request while Firestore is unavailable;
+    // nothing is cached on failure, so the next call tries again
     functions.logger.error(`Firestore error getting ${errorLabel}:`, { error });
-    setCache(null);
-    return null;
+    return (cached?.data as T | null | undefined) ?? null;
   }
 }
 
-export const getTaskData = async (): Promise<TaskData | null> =>
-  loadAndCache(cachedTaskData, (d) => (cachedTaskData = d), 'tarkovdata', 'tasks', 'taskData');
-
-export const getHideoutData = async (): Promise<HideoutData | null> =>
-  loadAndCache(
-    cachedHideoutData,
-    (d) => (cachedHideoutData = d),
-    'tarkovdata',
-    'hideout',
-    'hideoutData'
-  );
+export const getTaskData = async (options?: LoadOptions): Promise<TaskData | null> =>
+  loadAndCache<TaskData>('tasks', 'taskData', options);
+
+export const getHideoutData = async (options?: LoadOptions): Promise<HideoutData | null> =>
+  loadAndCache<HideoutData>('hideout', 'hideoutData', options);
+
+// Forgets everything loaded by this instance, so the next call reads the full documents
+export const clearTarkovDataCache = (): void => {
+  Object.keys(cache).forEach((doc) => delete cache[doc]);
+};
@@ -0,0 +1,164 @@
+import { logger } from 'firebase-functions/v2';
+import { HttpsError, FunctionsErrorCode } from 'firebase-functions/v2/https';
+import { Request, Response, NextFunction } from 'express';
+
+// Maps HttpsError codes to HTTP status codes
+export function getStatusFromHttpsErrorCode(code: FunctionsErrorCode): number {
+  switch (code) {
+    case 'ok':
+      return 200;
+    case 'cancelled':
+      return 499;
+    case 'unknown':
+      return 500;
+    case 'invalid-argument':
+      return 400;
+    case 'deadline-exceeded':
+      return 504;
+    case 'not-found':
+      return 404;
+    case 'already-exists':
+      return 409;
+    case 'permission-denied':
+      return 403;
+    case 'resource-exhausted':
+      return 429;
+    case 'failed-precondition':
+      return 400;
+    case 'aborted':
+      return 409;
+    case 'out-of-range':
+      return 400;
+    case 'unauthenticated':
+      return 401;
+    case 'internal':
+      return 500;
+    case 'unavailable':
+      return 503;
+    case 'data-loss':
+      return 500;
+    default:
+      logger.warn('Unknown HttpsError code received:', code);
+      return 500;
+  }
+}
+
+// Error body returned by every /api/v3 route. `code` is always an HttpsError code, so its
+// status is the one getStatusFromHttpsErrorCode gives; anything more specific, such as the
+// reason a token was rejected, goes in `details`.
+export interface ErrorEnvelope {
+  code: FunctionsErrorCode;
+  message: string;
+  details?: { [key: string]: unknown };
+}
+
+// Where several codes share a status, the first one listed is reported for it
+const ENVELOPE_CODES: FunctionsErrorCode[] = [
+  'invalid-argument',
+  'unauthenticated',
+  'permission-denied',
+  'not-found',
+  'already-exists',
+  'resource-exhausted',
+  'cancelled',
+  'internal',
+  'unavailable',
+  'deadline-exceeded',
+];
+
+export function getHttpsErrorCodeFromStatus(status: number): FunctionsErrorCode {
+  const code = ENVELOPE_CODES.find(
+    (candidate) => getStatusFromHttpsErrorCode(candidate) === status
+  );
+  if (code) return code;
+  return status >= 500 ? 'internal' : 'invalid-argument';
+}
+
+function isErrorEnvelope(body: unknown): body is ErrorEnvelope {
+  return (
+    typeof body === 'object' &&
+    body !== null &&
+    'code' in body &&
+    'message' in body &&
+    !('error' in body)
+  );
+}
+
+function asDetails(value: unknown): { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as { [key: string]: unknown })
+    : { reason: value };
+}
+
+// Converts the `{ error, ...extra }` bodies sent by the handlers and middleware into an
+// envelope. The extra fields (e.g. `violations`, `missingPermissions`) become the details,
+// with a `code` field renamed to `reason` so it cannot be confused with the envelope's code.
+export function toErrorEnvelope(status: number, body: unknown): ErrorEnvelope {
+  if (isErrorEnvelope(body)) return body;
+  const code = getHttpsErrorCodeFromStatus(status);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { code, message: typeof body === 'string' && body ? body : 'Request failed.' };
+  }
+  const { error, message, code: reason, ...rest } = body as { [key: string]: unknown };
+  const details: { [key: string]: unknown } = reason === undefined ? rest : { reason, ...rest };
+  return {
+    code,
+    message: String(error ?? message ?? 'Request failed.'),
+    ...(Object.keys(details).length > 0 ? { details } : {}),
+  };
+}
+
+// Registered for /api/v3 ahead of the bearer check, so that authentication, rate limiting and
+// validation errors are enveloped along with the handlers' own errors. Successful responses
+// are sent unchanged.
+// The handlers answer a missing scope with a 401, which /api and /api/v2 keep. Once verifyBearer
+// has accepted the token (req.apiToken is set) a 401 can only mean that, so v3 reports it as
+// permission-denied with a 403.
+export const errorEnvelope = (req: Request, res: Response, next: NextFunction): void => {
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (res.statusCode === 401 && (req as { apiToken?: unknown }).apiToken) res.status(403);
+    return json(res.statusCode >= 400 ? toErrorEnvelope(res.statusCode, body) : body);
+  };
+  next();
+};
+
+// Unmatched /api/v3 paths get an enveloped 404 instead of Express's HTML page
+export const envelopeNotFound = (req: Request, res: Response): void => {
+  res.status(404).json({ error: `No route for ${req.method} ${req.originalUrl}.` });
+};
+
+// Error handler for /api/v3. HttpsErrors keep their code; errors carrying an HTTP status (such
+// as a malformed JSON body) are mapped from it; anything else is reported as internal.
+export const envelopeErrorHandler = (
+  err: Error,
+  req: Request,
+  res: Response,
+  // Express only treats four-argument middleware as an error handler
+  _next: NextFunction
+): void => {
+  const status = (err as { status?: unknown }).status;
+  let envelope: ErrorEnvelope;
+  if (err instanceof HttpsError) {
+    envelope = {
+      code: err.code,
+      message: err.message,
+      ...(err.details !== undefined ? { details: asDetails(err.details) } : {}),
+    };
+  } else if (typeof status === 'number' && status >= 400 && status < 500) {
+    envelope = { code: getHttpsErrorCodeFromStatus(status), message: err.message };
+  } else {
+    logger.error('Unhandled error in API v3:', {
+      error: err.message,
+      stack: err.stack,
+      url: req.originalUrl,
+      method: req.method,
+    });
+    envelope = {
+      code: 'internal',
+      message: 'An internal server error occurred.',
+      ...(process.env.NODE_ENV === 'development' ? { details: { reason: err.message } } : {}),
+    };
+  }
+  res.status(getStatusFromHttpsErrorCode(envelope.code)).json(envelope);
+};
@@ -0,0 +1,101 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { randomBytes } from 'crypto';
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { isWebhookEventType } from './events.js';
+import { WebhookDocData } from './deliver.js';
+interface CreateWebhookData {
+  url: string;
+  events: string[];
+}
+const MAX_WEBHOOKS = 5;
+const MAX_URL_LENGTH = 2048;
+// Rejects URLs that are not HTTPS or that point at loopback, link-local or private addresses,
+// so webhooks cannot be used to reach services inside our own network. Hostnames resolving to
+// such addresses are rejected when delivering (see checkDeliveryHost).
+export function validateWebhookUrl(url: unknown): string {
+  if (typeof url !== 'string' || url.length > MAX_URL_LENGTH) {
+    throw new HttpsError('invalid-argument', 'Invalid webhook parameters: url is required.');
+  }
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new HttpsError('invalid-argument', 'Invalid webhook parameters: url is not a valid URL.');
+  }
+  if (parsed.protocol !== 'https:') {
+    throw new HttpsError('invalid-argument', 'Invalid webhook parameters: url must use https.');
+  }
+  const hostname = parsed.hostname.toLowerCase();
+  const privateHost =
+    hostname === 'localhost' ||
+    hostname.endsWith('.localhost') ||
+    hostname.endsWith('.local') ||
+    hostname.endsWith('.internal') ||
+    hostname.startsWith('[') ||
+    /^(0|10|127)\./.test(hostname) ||
+    /^169\.254\./.test(hostname) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(hostname) ||
+    /^192\.168\./.test(hostname);
+  if (privateHost) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Invalid webhook parameters: url must point to a public host.'
+    );
+  }
+  return parsed.toString();
+}
+// Registers a webhook for the caller's progress changes. The signing secret is generated here
+// and stored on the webhook document, which only its owner can read.
+async function _createWebhookLogic(
+  request: CallableRequest<CreateWebhookData>
+): Promise<{ webhookId: string }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const url = validateWebhookUrl(request.data?.url);
+  const events = request.data?.events;
+  if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEventType)) {
+    throw new HttpsError(
+      'invalid-argument',
+      'Invalid webhook parameters: events must be a non-empty list of known event types.'
+    );
+  }
+  const webhookCollectionRef = db.collection('webhook');
+  const webhookRef = webhookCollectionRef.doc();
+  try {
+    await db.runTransaction(async (transaction: Transaction) => {
+      const existing = await transaction.get(webhookCollectionRef.where('owner', '==', ownerUid));
+      if (existing.size >= MAX_WEBHOOKS) {
+        throw new HttpsError(
+          'resource-exhausted',
+          `You have the maximum number of webhooks (${MAX_WEBHOOKS}).`
+        );
+      }
+      const webhookData: WebhookDocData = {
+        owner: ownerUid,
+        url,
+        events: [...new Set(events)],
+        secret: `whsec_${randomBytes(24).toString('hex')}`,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      transaction.set(webhookRef, webhookData);
+    });
+    logger.log('Created webhook', { owner: ownerUid, webhookId: webhookRef.id });
+    return { webhookId: webhookRef.id };
+  } catch (e: unknown) {
+    logger.error('Failed to create webhook', {
+      owner: ownerUid,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    if (e instanceof HttpsError) {
+      throw e;
+    }
+    throw new HttpsError('internal', 'An unexpected error occurred during webhook creation.');
+  }
+}
+export const createWebhook = onCall(_createWebhookLogic);
@@ -0,0 +1,43 @@
+import * as logger from 'firebase-functions/logger';
+import { onCall, HttpsError, CallableRequest } from 'firebase-functions/v2/https';
+import admin from 'firebase-admin';
+import { Firestore } from 'firebase-admin/firestore';
+interface DeleteWebhookData {
+  webhookId: string;
+}
+// Removes a webhook together with its delivery log
+async function _deleteWebhookLogic(
+  request: CallableRequest<DeleteWebhookData>
+): Promise<{ deleted: boolean }> {
+  const db: Firestore = admin.firestore();
+  const ownerUid = request.auth?.uid;
+  if (!ownerUid) {
+    logger.error('Authentication context missing.');
+    throw new HttpsError('unauthenticated', 'The function must be called while authenticated.');
+  }
+  const webhookId = request.data?.webhookId;
+  if (!webhookId || typeof webhookId !== 'string') {
+    throw new HttpsError('invalid-argument', 'Invalid webhook parameters: webhookId is required.');
+  }
+  const webhookRef = db.collection('webhook').doc(webhookId);
+  const webhookDoc = await webhookRef.get();
+  if (!webhookDoc.exists) {
+    throw new HttpsError('not-found', 'Webhook not found.');
+  }
+  if (webhookDoc.get('owner') !== ownerUid) {
+    throw new HttpsError('permission-denied', 'You do not have permission to delete this webhook.');
+  }
+  try {
+    await db.recursiveDelete(webhookRef);
+  } catch (e: unknown) {
+    logger.error('Failed to delete webhook', {
+      owner: ownerUid,
+      webhookId,
+      error: e instanceof Error ? e.message : String(e),
+    });
+    throw new HttpsError('internal', 'An unexpected error occurred while deleting the webhook.');
+  }
+  logger.log('Deleted webhook', { owner: ownerUid, webhookId });
+  return { deleted: true };
+}
+export const deleteWebhook = onCall(_deleteWebhookLogic);
@@ -0,0 +1,183 @@
+import * as logger from 'firebase-functions/logger';
+import admin from 'firebase-admin';
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Firestore, DocumentSnapshot } from 'firebase-admin/firestore';
+import { WebhookEvent } from './events.js';
+
+export interface WebhookDocData {
+  owner: string;
+  url: string;
+  events: string[];
+  secret: string;
+  createdAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+}
+export interface WebhookPayload {
+  id: string; // Delivery ID, also sent as X-TarkovTracker-Delivery
+  userId: string;
+  createdAt: number;
+  events: WebhookEvent[];
+}
+type DeliveryStatus = 'delivered' | 'failed';
+
+// Each webhook keeps its most recent deliveries in webhook/{id}/deliveries
+export const DELIVERY_LOG_SIZE = 20;
+// Delay before each retry; a delivery is attempted once more than there are entries
+const RETRY_DELAYS_MS = [2000, 8000];
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Receivers verify a delivery by computing the same HMAC over `${timestamp}.${body}` with
+// their webhook secret. Including the timestamp lets them reject replayed deliveries.
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+const NON_PUBLIC_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+const NON_PUBLIC_IPV6: [string, number][] = [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+const nonPublicAddresses = new BlockList();
+NON_PUBLIC_IPV4.forEach(([network, prefix]) => nonPublicAddresses.addSubnet(network, prefix));
+NON_PUBLIC_IPV6.forEach(([network, prefix]) =>
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv6')
+);
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 ranges
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !nonPublicAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// validateWebhookUrl only sees the hostname, so a public name resolving to an internal address
+// is caught here, just before delivering. Returns why the URL may not be delivered to, if so.
+export async function checkDeliveryHost(url: string): Promise<string | null> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+  } catch (error: unknown) {
+    return `Could not resolve ${hostname}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  return blocked ? `${hostname} resolves to a non-public address (${blocked}).` : null;
+}
+
+// Network errors, rate limiting and server errors may succeed on a later attempt; any
+// other response means the receiver rejected the delivery
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 429 || status >= 500;
+}
+
+async function attemptDelivery(
+  url: string,
+  secret: string,
+  payload: WebhookPayload
+): Promise<{ status: number | null; error: string | null }> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TarkovTracker-Webhooks',
+        'X-TarkovTracker-Delivery': payload.id,
+        'X-TarkovTracker-Timestamp': String(timestamp),
+        'X-TarkovTracker-Signature': `sha256=${signPayload(secret, timestamp, body)}`,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    return { status: response.status, error: response.ok ? null : response.statusText };
+  } catch (error: unknown) {
+    return { status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Sends the events a webhook subscribed to, retrying transient failures, and records the
+// outcome in its delivery log. Never throws, so one failing receiver does not affect others.
+export async function deliverWebhook(
+  db: Firestore,
+  webhookDoc: DocumentSnapshot,
+  userId: string,
+  events: WebhookEvent[]
+): Promise<DeliveryStatus> {
+  const webhook = webhookDoc.data() as WebhookDocData;
+  const deliveriesRef = webhookDoc.ref.collection('deliveries');
+  const deliveryRef = deliveriesRef.doc();
+  const payload: WebhookPayload = {
+    id: deliveryRef.id,
+    userId,
+    createdAt: Date.now(),
+    events,
+  };
+  let attempts = 0;
+  // A host that resolves to a non-public address is not attempted at all
+  const hostError = await checkDeliveryHost(webhook.url);
+  let result: { status: number | null; error: string | null } = { status: null, error: hostError };
+  while (hostError === null) {
+    result = await attemptDelivery(webhook.url, webhook.secret, payload);
+    attempts++;
+    if (result.error === null || !isRetryable(result.status)) break;
+    if (attempts > RETRY_DELAYS_MS.length) break;
+    await new Promise((resolve) => setTimeout(resolve, RETRY_DELAYS_MS[attempts - 1]));
+  }
+  const status: DeliveryStatus = result.error === null ? 'delivered' : 'failed';
+  try {
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+    await deliveryRef.set({
+      status,
+      events: events.map((event) => event.type),
+      attempts,
+      responseStatus: result.status,
+      error: result.error,
+      timestamp,
+    });
+    await webhookDoc.ref.update({
+      lastDelivery: { status, responseStatus: result.status, timestamp },
+    });
+    const stale = await deliveriesRef.orderBy('timestamp', 'desc').offset(DELIVERY_LOG_SIZE).get();
+    if (!stale.empty) {
+      const batch = db.batch();
+      stale.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+  } catch (error: unknown) {
+    logger.error('Failed to record webhook delivery', {
+      webhookId: webhookDoc.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  if (status === 'failed') {
+    logger.warn('Webhook delivery failed', {
+      webhookId: webhookDoc.id,
+      owner: userId,
+      attempts,
+      responseStatus: result.status,
+      error: result.error,
+    });
+  }
+  return status;
+}
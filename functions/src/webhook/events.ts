@@ -0,0 +1,67 @@
+// Progress changes a webhook can subscribe to. Event IDs are stored on webhook/{id}.events
+// and sent as `type` on each event in the payload.
+export const WEBHOOK_EVENT_TYPES = [
+  'task.completed',
+  'task.failed',
+  'objective.count',
+  'level.changed',
+  'hideout.module.built',
+] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  id?: string; // Task, objective or hideout module ID
+  value?: number; // New objective count or level
+  previous?: number;
+}
+
+interface CompletionState {
+  complete?: boolean;
+  failed?: boolean;
+  count?: number;
+}
+interface ProgressDocData {
+  level?: number;
+  taskCompletions?: { [taskId: string]: CompletionState };
+  taskObjectives?: { [objectiveId: string]: CompletionState };
+  hideoutModules?: { [moduleId: string]: CompletionState };
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return WEBHOOK_EVENT_TYPES.includes(value as WebhookEventType);
+}
+
+// Compares two versions of progress/{uid} and lists what changed, in a stable order.
+// Only transitions are reported, so rewriting an already completed task sends nothing.
+export function buildProgressEvents(
+  before: ProgressDocData | undefined,
+  after: ProgressDocData | undefined
+): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  if (!after) return events;
+  Object.entries(after.taskCompletions ?? {}).forEach(([taskId, state]) => {
+    const previous = before?.taskCompletions?.[taskId];
+    if (state?.failed) {
+      if (!previous?.failed) events.push({ type: 'task.failed', id: taskId });
+    } else if (state?.complete && (!previous?.complete || previous.failed)) {
+      events.push({ type: 'task.completed', id: taskId });
+    }
+  });
+  Object.entries(after.taskObjectives ?? {}).forEach(([objectiveId, state]) => {
+    const count = state?.count ?? 0;
+    const previous = before?.taskObjectives?.[objectiveId]?.count ?? 0;
+    if (count !== previous) {
+      events.push({ type: 'objective.count', id: objectiveId, value: count, previous });
+    }
+  });
+  if (after.level !== undefined && after.level !== before?.level) {
+    events.push({ type: 'level.changed', value: after.level, previous: before?.level });
+  }
+  Object.entries(after.hideoutModules ?? {}).forEach(([moduleId, state]) => {
+    if (state?.complete && !before?.hideoutModules?.[moduleId]?.complete) {
+      events.push({ type: 'hideout.module.built', id: moduleId });
+    }
+  });
+  return events;
+}
@@ -0,0 +1,30 @@
+import * as logger from 'firebase-functions/logger';
+import { onDocumentWritten } from 'firebase-functions/v2/firestore';
+import admin from 'firebase-admin';
+import { Firestore } from 'firebase-admin/firestore';
+import { buildProgressEvents } from './events.js';
+import { deliverWebhook } from './deliver.js';
+
+// Notifies the user's webhooks whenever their progress document changes. Each webhook gets a
+// single POST listing every subscribed event from the write; writes that only touch fields
+// no webhook cares about (e.g. display name) send nothing.
+export const progressWebhooks = onDocumentWritten(
+  { document: 'progress/{userId}', timeoutSeconds: 120 },
+  async (event) => {
+    const userId = event.params.userId;
+    const events = buildProgressEvents(event.data?.before.data(), event.data?.after.data());
+    if (events.length === 0) return;
+    const db: Firestore = admin.firestore();
+    const webhooks = await db.collection('webhook').where('owner', '==', userId).get();
+    if (webhooks.empty) return;
+    await Promise.all(
+      webhooks.docs.map((webhookDoc) => {
+        const subscribed: string[] = webhookDoc.get('events') ?? [];
+        const matching = events.filter((progressEvent) => subscribed.includes(progressEvent.type));
+        if (matching.length === 0) return null;
+        return deliverWebhook(db, webhookDoc, userId, matching);
+      })
+    );
+    logger.log('Sent progress webhooks', { owner: userId, events: events.length });
+  }
+);
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+
+describe('Token permission scopes', () => {
+  it('should let WP grant every narrower write scope', async () => {
+    const { hasPermission } = await import('../src/auth/permissions');
+    const legacyToken = { permissions: ['WP'] };
+    expect(hasPermission(legacyToken, 'WT')).toBe(true);
+    expect(hasPermission(legacyToken, 'WH')).toBe(true);
+    expect(hasPermission(legacyToken, 'WL')).toBe(true);
+    expect(hasPermission(legacyToken, 'GP')).toBe(false);
+  });
+
+  it('should keep narrow scopes separate', async () => {
+    const { hasPermission } = await import('../src/auth/permissions');
+    const overlayToken = { permissions: ['WT', 'RI'] };
+    expect(hasPermission(overlayToken, 'WT')).toBe(true);
+    expect(hasPermission(overlayToken, 'RI')).toBe(true);
+    expect(hasPermission(overlayToken, 'WH')).toBe(false);
+    expect(hasPermission(overlayToken, 'WP')).toBe(false);
+    expect(hasPermission(undefined, 'GP')).toBe(false);
+  });
+});
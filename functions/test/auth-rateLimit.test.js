@@ -0,0 +1,92 @@
+import { vi, describe, it, expect } from 'vitest';
+import { firestoreMock } from './setup';
+
+const WINDOW = 60 * 1000;
+// Params are read from the environment outside of a deployed function
+process.env.API_RATE_LIMIT_TOKEN_PER_MINUTE = '60';
+process.env.API_RATE_LIMIT_OWNER_PER_MINUTE = '120';
+
+describe('Sliding window rate limit', () => {
+  it('should count requests within the current window', async () => {
+    const { applySlidingWindow } = await import('../src/auth/rateLimit');
+    const now = 10 * WINDOW + 1000;
+    let state;
+    for (let i = 0; i < 3; i++) {
+      const { window, result } = applySlidingWindow(state, 3, now);
+      expect(result.allowed).toBe(true);
+      state = window;
+    }
+    const { result } = applySlidingWindow(state, 3, now);
+    expect(result.allowed).toBe(false);
+    expect(result.remaining).toBe(0);
+    expect(result.retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  it('should weight the previous window by its remaining overlap', async () => {
+    const { applySlidingWindow } = await import('../src/auth/rateLimit');
+    const previous = { windowStart: 9 * WINDOW, count: 10, previousCount: 0, limit: 10 };
+    // A quarter into the new window, 75% of the previous window still counts
+    const early = applySlidingWindow(previous, 10, 10 * WINDOW + WINDOW / 4);
+    expect(early.result.remaining).toBe(10 - 7 - 1);
+    // Windows older than the previous one are forgotten
+    const stale = { windowStart: 5 * WINDOW, count: 10, previousCount: 10, limit: 10 };
+    expect(applySlidingWindow(stale, 10, 10 * WINDOW).result.remaining).toBe(9);
+  });
+
+  it('should not count rejected requests', async () => {
+    const { applySlidingWindow } = await import('../src/auth/rateLimit');
+    const now = 10 * WINDOW;
+    const full = { windowStart: now, count: 5, previousCount: 0, limit: 5 };
+    const { window, result } = applySlidingWindow(full, 5, now);
+    expect(result.allowed).toBe(false);
+    expect(window.count).toBe(5);
+  });
+
+  it('should count allowed requests with increments instead of a transaction', async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    const { consumeRateLimit } = await import('../src/auth/rateLimit');
+    const now = Date.now();
+    const windowStart = Math.floor(now / WINDOW) * WINDOW;
+    const tokenRef = { update: vi.fn().mockResolvedValue(undefined) };
+    const tokenDoc = {
+      ref: tokenRef,
+      get: () => ({ limit: 60, counts: { [windowStart]: 2, [windowStart - 5 * WINDOW]: 9 } }),
+    };
+    const ownerRef = {
+      get: vi.fn().mockResolvedValue({ get: () => undefined }),
+      set: vi.fn().mockResolvedValue(undefined),
+    };
+    firestoreMock.collection.mockImplementation(() => ({ doc: vi.fn(() => ownerRef) }));
+    const result = await consumeRateLimit(firestoreMock, tokenDoc, 'test-user');
+    expect(result.allowed).toBe(true);
+    expect(firestoreMock.runTransaction).not.toHaveBeenCalled();
+    expect(tokenRef.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        calls: 'increment(1)',
+        [`rateLimit.counts.${windowStart}`]: 'increment(1)',
+      })
+    );
+    // The count of a window that no longer overlaps is deleted
+    expect(Object.keys(tokenRef.update.mock.calls[0][0])).toContain(
+      `rateLimit.counts.${windowStart - 5 * WINDOW}`
+    );
+    expect(ownerRef.set).toHaveBeenCalledWith(
+      { rateLimit: { limit: 120, counts: { [windowStart]: 'increment(1)' } } },
+      { merge: true }
+    );
+  });
+
+  it('should not write anything for rejected requests', async () => {
+    const { consumeRateLimit } = await import('../src/auth/rateLimit');
+    const windowStart = Math.floor(Date.now() / WINDOW) * WINDOW;
+    const tokenRef = { update: vi.fn() };
+    const tokenDoc = { ref: tokenRef, get: () => ({ limit: 60, counts: { [windowStart]: 60 } }) };
+    const ownerRef = { get: vi.fn().mockResolvedValue({ get: () => undefined }), set: vi.fn() };
+    firestoreMock.collection.mockImplementation(() => ({ doc: vi.fn(() => ownerRef) }));
+    const result = await consumeRateLimit(firestoreMock, tokenDoc, 'test-user');
+    expect(result.allowed).toBe(false);
+    expect(tokenRef.update).not.toHaveBeenCalled();
+    expect(ownerRef.set).not.toHaveBeenCalled();
+  });
+});
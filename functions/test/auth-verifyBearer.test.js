@@ -0,0 +1,104 @@
+import { vi, describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { firestoreMock } from './setup';
+
+const mockResponse = () => {
+  const res = {};
+  res.status = vi.fn().mockReturnValue(res);
+  res.json = vi.fn().mockReturnValue(res);
+  return res;
+};
+const mockRequest = (token) => ({
+  get: vi.fn((name) => (name === 'Authorization' ? `Bearer ${token}` : undefined)),
+});
+// Makes token/{id} resolve to the given document data
+const mockTokenDoc = (data) => {
+  const doc = vi.fn(() => ({
+    get: vi.fn().mockResolvedValue({ exists: data !== null, data: () => data }),
+    update: vi.fn().mockResolvedValue(undefined),
+  }));
+  firestoreMock.collection.mockImplementation(() => ({ doc }));
+  return doc;
+};
+
+describe('verifyBearer', () => {
+  it('should reject expired tokens with a distinct code', async () => {
+    const { verifyBearer } = await import('../src/auth/verifyBearer');
+    mockTokenDoc({
+      owner: 'test-user',
+      permissions: ['GP'],
+      expiresAt: { toMillis: () => Date.now() - 1000 },
+    });
+    const res = mockResponse();
+    const next = vi.fn();
+    await verifyBearer(mockRequest('expired-token'), res, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'token-expired' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should look tokens up by the hash of the secret', async () => {
+    const { verifyBearer } = await import('../src/auth/verifyBearer');
+    const doc = mockTokenDoc({ owner: 'test-user', permissions: ['GP'] });
+    const req = mockRequest('plain-secret');
+    const next = vi.fn();
+    await verifyBearer(req, mockResponse(), next);
+    const hash = createHash('sha256').update('plain-secret').digest('hex');
+    expect(doc).toHaveBeenCalledWith(hash);
+    expect(doc).not.toHaveBeenCalledWith('plain-secret');
+    expect(req.apiToken.tokenId).toBe(hash);
+  });
+
+  it('should reject unknown tokens as invalid', async () => {
+    const { verifyBearer } = await import('../src/auth/verifyBearer');
+    mockTokenDoc(null);
+    const res = mockResponse();
+    const next = vi.fn();
+    await verifyBearer(mockRequest('unknown-token'), res, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'invalid-token' }));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should migrate a legacy plaintext token the first time it is used', async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    const { verifyBearer } = await import('../src/auth/verifyBearer');
+    const hash = createHash('sha256').update('legacy-secret').digest('hex');
+    const tokenData = { owner: 'test-user', permissions: ['GP'] };
+    // token/{id} documents by ID; the legacy one moves under the hash in the transaction
+    const tokens = { 'legacy-secret': tokenData };
+    const ref = (collection, id) => ({
+      id,
+      path: `${collection}/${id}`,
+      get: vi.fn(async () => ({ exists: !!tokens[id], data: () => tokens[id] })),
+      update: vi.fn().mockResolvedValue(undefined),
+    });
+    firestoreMock.collection.mockImplementation((collection) => ({
+      doc: vi.fn((id) => ref(collection, id)),
+    }));
+    const transaction = {
+      get: vi.fn(async (docRef) => ({
+        exists: !!tokens[docRef.id],
+        data: () => tokens[docRef.id],
+      })),
+      set: vi.fn((docRef, data) => {
+        if (docRef.path.startsWith('token/')) tokens[docRef.id] = data;
+      }),
+      update: vi.fn(),
+      delete: vi.fn((docRef) => delete tokens[docRef.id]),
+    };
+    firestoreMock.runTransaction.mockImplementation((callback) => callback(transaction));
+    const req = mockRequest('legacy-secret');
+    const next = vi.fn();
+    await verifyBearer(req, mockResponse(), next);
+    expect(next).toHaveBeenCalled();
+    expect(req.apiToken.tokenId).toBe(hash);
+    expect(tokens[hash]).toMatchObject({ owner: 'test-user', prefix: 'legacy' });
+    expect(tokens['legacy-secret']).toBeUndefined();
+    expect(transaction.update).toHaveBeenCalledWith(
+      expect.objectContaining({ path: 'system/test-user' }),
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { vi, describe, it, expect } from 'vitest';
+
+const runValidator = async (spec, req) => {
+  const { validateRequest } = await import('../src/openapi/validateRequest');
+  const res = { status: vi.fn().mockReturnThis(), send: vi.fn() };
+  const next = vi.fn();
+  validateRequest(spec)({ params: {}, query: {}, ...req }, res, next);
+  return { res, next };
+};
+
+describe('OpenAPI request validation', () => {
+  it('should list every violation in the body', async () => {
+    const { schemaRef, validateSchema } = await import('../src/openapi/validateRequest');
+    const violations = validateSchema(
+      schemaRef('ProgressBatch'),
+      { operations: [{ type: 'task', id: 'a' }, { type: 'nope' }, 'x'] },
+      'body'
+    );
+    expect(violations).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: 'operations[1].type' }),
+        expect.objectContaining({ path: 'operations[2]', message: 'must be an object' }),
+      ])
+    );
+    expect(validateSchema(schemaRef('TaskObjectiveUpdate'), { count: null }, 'body')).toEqual([]);
+  });
+
+  it('should accept string task states and reject numeric ones', async () => {
+    const { schemaRef } = await import('../src/openapi/validateRequest');
+    const spec = { body: schemaRef('MultipleTasksUpdate') };
+    const accepted = await runValidator(spec, { body: { 'task-a': 'completed' } });
+    expect(accepted.next).toHaveBeenCalled();
+    const rejected = await runValidator(spec, { body: { 'task-a': 2 } });
+    expect(rejected.next).not.toHaveBeenCalled();
+    expect(rejected.res.status).toHaveBeenCalledWith(400);
+    expect(rejected.res.send.mock.calls[0][0].violations).toEqual([
+      { location: 'body', path: 'task-a', message: 'must be a string' },
+    ]);
+  });
+
+  it('should coerce numeric path parameters before checking them', async () => {
+    const { schemaRef } = await import('../src/openapi/validateRequest');
+    const spec = { params: { levelValue: schemaRef('PlayerLevel') } };
+    expect((await runValidator(spec, { params: { levelValue: '12' } })).next).toHaveBeenCalled();
+    expect(
+      (await runValidator(spec, { params: { levelValue: '12abc' } })).next
+    ).not.toHaveBeenCalled();
+    expect((await runValidator(spec, { params: { levelValue: '0' } })).next).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown schema names', async () => {
+    const { schemaRef } = await import('../src/openapi/validateRequest');
+    expect(() => schemaRef('Missing')).toThrow();
+  });
+});
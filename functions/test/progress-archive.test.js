@@ -0,0 +1,63 @@
+import { vi, describe, it, expect } from 'vitest';
+import { firestoreMock } from './setup';
+
+const progress = {
+  level: 42,
+  gameEdition: 4,
+  pmcFaction: 'BEAR',
+  displayName: 'Nikita',
+  taskCompletions: { 'task-a': { complete: true, timestamp: 1 } },
+  taskObjectives: { 'obj-a': { complete: true } },
+  hideoutModules: { 'stash-2': { complete: true } },
+  hideoutParts: { 'part-a': { count: 3 } },
+};
+
+describe('Wipe archives', () => {
+  it('should keep only account settings when resetting for a wipe', async () => {
+    const { wipeProgress } = await import('../src/progress/archive');
+    expect(wipeProgress(progress)).toEqual({
+      level: 1,
+      gameEdition: 4,
+      pmcFaction: 'BEAR',
+      displayName: 'Nikita',
+      taskObjectives: {},
+      taskCompletions: {},
+      hideoutParts: {},
+      hideoutModules: {},
+    });
+  });
+
+  it('should archive the progress and reset it in one transaction', async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    const archiveRef = { id: 'wipe-1' };
+    const progressRef = {
+      collection: vi.fn(() => ({ doc: vi.fn(() => archiveRef) })),
+    };
+    firestoreMock.collection.mockImplementation(() => ({ doc: vi.fn(() => progressRef) }));
+    const transaction = {
+      get: vi.fn().mockResolvedValue({ exists: true, data: () => progress }),
+      set: vi.fn(),
+    };
+    firestoreMock.runTransaction.mockImplementation((callback) => callback(transaction));
+    const { archiveAndResetProgress } = await import('../src/progress/archive');
+    const result = await archiveAndResetProgress.run({
+      auth: { uid: 'user-1' },
+      data: { label: ' Wipe 15 ' },
+    });
+    expect(result.wipeId).toBe('wipe-1');
+    expect(transaction.set).toHaveBeenCalledWith(
+      archiveRef,
+      expect.objectContaining({ label: 'Wipe 15', progress })
+    );
+    expect(transaction.set).toHaveBeenCalledWith(progressRef, result.progress);
+    expect(result.progress.level).toBe(1);
+  });
+
+  it('should reject labels that are too long', async () => {
+    const { archiveAndResetProgress } = await import('../src/progress/archive');
+    await expect(
+      archiveAndResetProgress.run({ auth: { uid: 'user-1' }, data: { label: 'x'.repeat(101) } })
+    ).rejects.toMatchObject({ code: 'invalid-argument' });
+  });
+});
@@ -0,0 +1,176 @@
+import { vi, describe, it, expect } from 'vitest';
+import { firestoreMock } from './setup';
+import { getTaskData, getHideoutData } from '../src/utils/dataLoaders';
+
+vi.mock('../src/utils/dataLoaders', () => ({
+  getTaskData: vi.fn(),
+  getHideoutData: vi.fn(),
+}));
+
+const mockResponse = () => {
+  const res = {};
+  res.status = vi.fn().mockReturnValue(res);
+  res.send = vi.fn().mockReturnValue(res);
+  return res;
+};
+
+// Serves the tarkov data and runs transactions against the given progress document
+const mockProgress = (progressDoc, { taskData = null, hideoutData = null } = {}) => {
+  getTaskData.mockResolvedValue(taskData);
+  getHideoutData.mockResolvedValue(hideoutData);
+  const progressRef = { id: 'test-user', update: vi.fn().mockResolvedValue(undefined) };
+  firestoreMock.collection.mockImplementation(() => ({ doc: vi.fn(() => progressRef) }));
+  const transaction = {
+    get: vi.fn().mockResolvedValue(progressDoc),
+    update: vi.fn(),
+  };
+  firestoreMock.runTransaction.mockImplementation(async (callback) => callback(transaction));
+  return { progressRef, transaction };
+};
+
+describe('Progress operations batch handler', () => {
+  const req = (body) => ({ apiToken: { owner: 'test-user', permissions: ['WL'] }, body });
+
+  it('should write every operation in one transaction', async () => {
+    const { default: progressHandler } = await import('../src/progress/progressHandler');
+    const { progressRef, transaction } = mockProgress({ exists: true, data: () => ({}) });
+    const res = mockResponse();
+    await progressHandler.updateProgressBatch(
+      req({
+        operations: [
+          { type: 'level', value: 30 },
+          { type: 'faction', value: 'BEAR' },
+        ],
+      }),
+      res
+    );
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(transaction.update).toHaveBeenCalledTimes(1);
+    expect(transaction.update).toHaveBeenCalledWith(progressRef, { level: 30, pmcFaction: 'BEAR' });
+  });
+
+  it('should return 404 without writing when the user has no progress', async () => {
+    const { default: progressHandler } = await import('../src/progress/progressHandler');
+    const { transaction } = mockProgress({ exists: false, data: () => undefined });
+    const res = mockResponse();
+    await progressHandler.updateProgressBatch(
+      req({ operations: [{ type: 'level', value: 30 }] }),
+      res
+    );
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('Hideout progress handlers', () => {
+  const hideoutData = {
+    hideoutStations: [
+      {
+        id: 'station-1',
+        levels: [{ id: 'module-1', itemRequirements: [{ id: 'part-1' }, { id: 'part-2' }] }],
+      },
+    ],
+  };
+  const req = (params, body, permissions = ['WH']) => ({
+    apiToken: { owner: 'test-user', permissions },
+    params,
+    body,
+  });
+  // Runs the route's request validation, then the handler if the request passed
+  const handle = async (validator, handler, request) => {
+    const res = mockResponse();
+    const next = vi.fn();
+    validator(request, res, next);
+    if (next.mock.calls.length > 0) await handler(request, res);
+    return res;
+  };
+
+  it('should complete every part of a completed module', async () => {
+    const { default: progressHandler } = await import('../src/progress/progressHandler');
+    const { progressRef } = mockProgress({ exists: true }, { hideoutData });
+    const res = mockResponse();
+    await progressHandler.updateHideoutModule(
+      req({ moduleId: 'module-1' }, { state: 'completed' }),
+      res
+    );
+    expect(res.status).toHaveBeenCalledWith(200);
+    const update = progressRef.update.mock.calls[0][0];
+    expect(update['hideoutModules.module-1.complete']).toBe(true);
+    expect(update['hideoutParts.part-1.complete']).toBe(true);
+    expect(update['hideoutParts.part-2.complete']).toBe(true);
+  });
+
+  it('should reset every part of an uncompleted module', async () => {
+    const { default: progressHandler } = await import('../src/progress/progressHandler');
+    const { progressRef } = mockProgress({ exists: true }, { hideoutData });
+    await progressHandler.updateHideoutModule(
+      req({ moduleId: 'module-1' }, { state: 'uncompleted' }),
+      mockResponse()
+    );
+    const update = progressRef.update.mock.calls[0][0];
+    expect(update['hideoutModules.module-1.complete']).toBe(false);
+    expect(update['hideoutParts.part-1.complete']).toBe(false);
+    expect(update['hideoutParts.part-2.complete']).toBe(false);
+  });
+
+  it('should write the part count and completion', async () => {
+    const { default: progressHandler } = await import('../src/progress/progressHandler');
+    const { progressRef } = mockProgress({ exists: true });
+    const res = mockResponse();
+    await progressHandler.updateHideoutPart(
+      req({ partId: 'part-1' }, { count: 3, complete: true }),
+      res
+    );
+    expect(res.status).toHaveBeenCalledWith(200);
+    const update = progressRef.update.mock.calls[0][0];
+    expect(update['hideoutParts.part-1.count']).toBe(3);
+    expect(update['hideoutParts.part-1.complete']).toBe(true);
+    await progressHandler.updateHideoutPart(req({ partId: 'part-1' }, { count: 1 }), res);
+    const countOnly = progressRef.update.mock.calls[1][0];
+    expect(countOnly['hideoutParts.part-1.count']).toBe(1);
+    expect(countOnly['hideoutParts.part-1.complete']).toBeUndefined();
+  });
+
+  it('should reject tokens without the hideout scope', async () => {
+    const { default: progressHandler } = await import('../src/progress/progressHandler');
+    const { progressRef } = mockProgress({ exists: true }, { hideoutData });
+    const moduleRes = mockResponse();
+    await progressHandler.updateHideoutModule(
+      req({ moduleId: 'module-1' }, { state: 'completed' }, ['GP', 'WT']),
+      moduleRes
+    );
+    expect(moduleRes.status).toHaveBeenCalledWith(401);
+    const partRes = mockResponse();
+    await progressHandler.updateHideoutPart(
+      req({ partId: 'part-1' }, { count: 3 }, ['GP', 'WT']),
+      partRes
+    );
+    expect(partRes.status).toHaveBeenCalledWith(401);
+    expect(progressRef.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid bodies without writing', async () => {
+    const { default: progressHandler } = await import('../src/progress/progressHandler');
+    const { validateRequest, schemaRef } = await import('../src/openapi/validateRequest');
+    const { progressRef } = mockProgress({ exists: true }, { hideoutData });
+    const validateModule = validateRequest({ body: schemaRef('HideoutModuleUpdate') });
+    const validatePart = validateRequest({ body: schemaRef('HideoutPartUpdate') });
+    const invalid = [
+      [validateModule, progressHandler.updateHideoutModule, { moduleId: 'module-1' }, {}],
+      [
+        validateModule,
+        progressHandler.updateHideoutModule,
+        { moduleId: 'module-1' },
+        { state: 'done' },
+      ],
+      [validatePart, progressHandler.updateHideoutPart, { partId: 'part-1' }, {}],
+      [validatePart, progressHandler.updateHideoutPart, { partId: 'part-1' }, { count: -1 }],
+      [validatePart, progressHandler.updateHideoutPart, { partId: 'part-1' }, { other: true }],
+    ];
+    for (const [validator, handler, params, body] of invalid) {
+      const res = await handle(validator, handler, { ...req(params, body), query: {} });
+      expect(res.status).toHaveBeenCalledWith(400);
+    }
+    expect(progressRef.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+
+const STASH_STATION_ID = '5d484fc0654e76006657e0ab';
+const bolts = { id: 'bolts', name: 'Bolts', shortName: 'Bolts' };
+const taskData = {
+  tasks: [
+    {
+      id: 'task-any',
+      factionName: 'Any',
+      objectives: [
+        { id: 'obj-give', type: 'giveItem', item: bolts, count: 4, foundInRaid: true },
+        { id: 'obj-mark', type: 'mark', item: { id: 'marker' } },
+      ],
+    },
+    {
+      id: 'task-bear',
+      factionName: 'BEAR',
+      objectives: [{ id: 'obj-bear', type: 'giveItem', item: bolts, count: 2 }],
+    },
+  ],
+};
+const hideoutData = {
+  hideoutStations: [
+    {
+      id: STASH_STATION_ID,
+      levels: [
+        { id: 'stash-1', level: 1, itemRequirements: [{ id: 'part-s1', item: bolts, count: 5 }] },
+        { id: 'stash-2', level: 2, itemRequirements: [{ id: 'part-s2', item: bolts, count: 3 }] },
+      ],
+    },
+  ],
+};
+
+describe('Needed items', () => {
+  it('should aggregate task and hideout needs with found in raid split', async () => {
+    const { getNeededItems } = await import('../src/progress/neededItems');
+    const items = getNeededItems(
+      {
+        pmcFaction: 'USEC',
+        gameEdition: 1,
+        taskObjectives: { 'obj-give': { count: 6 } },
+        hideoutParts: { 'part-s2': { count: 1 } },
+      },
+      'user-1',
+      hideoutData,
+      taskData
+    );
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      itemId: 'bolts',
+      foundInRaid: { needed: 4, collected: 4 },
+      notFoundInRaid: { needed: 3, collected: 1 },
+    });
+    expect(items[0].sources.map((source) => source.id)).toEqual(['obj-give', 'part-s2']);
+    expect(items[0].sources[0]).toMatchObject({ type: 'task', objectiveType: 'giveItem' });
+    expect(items[0].sources[1]).toMatchObject({ type: 'hideout', moduleId: 'stash-2', level: 2 });
+  });
+
+  it('should drop completed needs and hideout levels included with the edition', async () => {
+    const { getNeededItems } = await import('../src/progress/neededItems');
+    const items = getNeededItems(
+      {
+        pmcFaction: 'BEAR',
+        gameEdition: 2,
+        taskCompletions: { 'task-any': { complete: true } },
+      },
+      'user-1',
+      hideoutData,
+      taskData
+    );
+    expect(items[0].sources.map((source) => source.id)).toEqual(['obj-bear']);
+  });
+});
+
+describe('Team needed items', () => {
+  const need = (itemId, sources) => ({ itemId, sources });
+  const members = [
+    {
+      userId: 'self',
+      items: [
+        need('bolts', [
+          { type: 'hideout', id: 'part-1', foundInRaid: false, needed: 2, collected: 0 },
+        ]),
+      ],
+    },
+    {
+      userId: 'mate',
+      items: [
+        need('bolts', [
+          { type: 'hideout', id: 'part-1', foundInRaid: false, needed: 2, collected: 1 },
+          { type: 'task', id: 'obj-1', foundInRaid: true, needed: 3, collected: 1 },
+          { type: 'task', id: 'obj-2', foundInRaid: false, needed: 1, collected: 0 },
+        ]),
+      ],
+    },
+  ];
+
+  it('should list per member remaining counts', async () => {
+    const { mergeTeamNeededItems } = await import('../src/progress/neededItems');
+    const [bolts] = mergeTeamNeededItems(members, 'self', {
+      hideNonFoundInRaid: false,
+      hideHideout: false,
+    });
+    expect(bolts.foundInRaid).toEqual({ needed: 3, collected: 1 });
+    expect(bolts.notFoundInRaid).toEqual({ needed: 5, collected: 1 });
+    expect(bolts.members.map((member) => [member.userId, member.remaining])).toEqual([
+      ['self', 2],
+      ['mate', 4],
+    ]);
+  });
+
+  it("should only filter teammates' needs by the requester's preferences", async () => {
+    const { mergeTeamNeededItems } = await import('../src/progress/neededItems');
+    const [bolts] = mergeTeamNeededItems(members, 'self', {
+      hideNonFoundInRaid: true,
+      hideHideout: true,
+    });
+    expect(bolts.members[0].sources).toHaveLength(1);
+    expect(bolts.members[1].sources.map((source) => source.id)).toEqual(['obj-1']);
+    expect(bolts.notFoundInRaid).toEqual({ needed: 2, collected: 0 });
+  });
+});
@@ -0,0 +1,260 @@
+import { vi, describe, it, expect } from 'vitest';
+import { firestoreMock } from './setup';
+
+vi.mock('firebase-admin/firestore', () => ({
+  FieldValue: { delete: vi.fn(() => 'delete()') },
+  FieldPath: { documentId: vi.fn(() => '__name__') },
+}));
+
+const taskData = {
+  tasks: [
+    {
+      id: 'task-a',
+      objectives: [{ id: 'obj-a1' }, { id: 'obj-a2' }],
+      alternatives: ['task-b'],
+    },
+    {
+      id: 'task-b',
+      objectives: [{ id: 'obj-b1' }],
+    },
+  ],
+};
+
+describe('Progress shared state', () => {
+  it('should write task completions in the frontend schema', async () => {
+    const { actions } = await import('../src/progress/sharedState');
+    const update = actions.setTaskComplete('task-a');
+    expect(update['taskCompletions.task-a.complete']).toBe(true);
+    expect(update['taskCompletions.task-a.failed']).toBe(false);
+    expect(typeof update['taskCompletions.task-a.timestamp']).toBe('number');
+    expect(actions.setObjectiveCount('obj-a1', -2)['taskObjectives.obj-a1.count']).toBe(0);
+  });
+
+  it('should complete objectives and fail alternatives when completing a task', async () => {
+    const { buildTaskStateUpdate } = await import('../src/progress/progressUtils');
+    const update = buildTaskStateUpdate('task-a', 'completed', taskData);
+    expect(update['taskCompletions.task-a.complete']).toBe(true);
+    expect(update['taskObjectives.obj-a1.complete']).toBe(true);
+    expect(update['taskObjectives.obj-a2.complete']).toBe(true);
+    expect(update['taskCompletions.task-b.failed']).toBe(true);
+    expect(update['taskObjectives.obj-b1.complete']).toBe(true);
+    expect(Object.keys(update).some((key) => key.startsWith('tasks.'))).toBe(false);
+  });
+
+  it('should uncomplete objectives and alternatives when resetting a task', async () => {
+    const { buildTaskStateUpdate } = await import('../src/progress/progressUtils');
+    const update = buildTaskStateUpdate('task-a', 'uncompleted', taskData);
+    expect(update['taskCompletions.task-a.complete']).toBe(false);
+    expect(update['taskObjectives.obj-a1.complete']).toBe(false);
+    expect(update['taskCompletions.task-b.complete']).toBe(false);
+  });
+});
+
+describe('Legacy task progress migration', () => {
+  it('should convert legacy task status and objectives', async () => {
+    const { buildLegacyTaskMigration } = await import('../src/migrations/legacyTaskProgress');
+    const update = buildLegacyTaskMigration(
+      {
+        tasks: {
+          'task-a': { st: 'completed', cAt: 1700000000000, obj: { 0: true, 1: 3 } },
+          'task-b': { st: 'failed' },
+        },
+      },
+      taskData
+    );
+    expect(update['taskCompletions.task-a.complete']).toBe(true);
+    expect(update['taskCompletions.task-a.timestamp']).toBe(1700000000000);
+    expect(update['taskObjectives.obj-a1.complete']).toBe(true);
+    expect(update['taskObjectives.obj-a2.count']).toBe(3);
+    expect(update['taskCompletions.task-b.failed']).toBe(true);
+    expect(update.tasks).toBe('delete()');
+  });
+
+  it('should keep progress already stored in the current schema', async () => {
+    const { buildLegacyTaskMigration } = await import('../src/migrations/legacyTaskProgress');
+    const update = buildLegacyTaskMigration(
+      {
+        tasks: { 'task-a': { st: 'uncompleted' } },
+        taskCompletions: { 'task-a': { complete: true } },
+      },
+      taskData
+    );
+    expect(update['taskCompletions.task-a.complete']).toBeUndefined();
+    expect(buildLegacyTaskMigration({ level: 5 }, taskData)).toBeNull();
+  });
+
+  it('should keep legacy entries that could not be fully migrated', async () => {
+    const { buildLegacyTaskMigration } = await import('../src/migrations/legacyTaskProgress');
+    const progress = {
+      tasks: {
+        'task-a': { st: 'completed', obj: { 0: true, 7: true } },
+        'task-b': { st: 'failed' },
+      },
+    };
+    const update = buildLegacyTaskMigration(progress, taskData);
+    expect(update['taskObjectives.obj-a1.complete']).toBe(true);
+    expect(update['tasks.task-b']).toBe('delete()');
+    expect(update['tasks.task-a']).toBeUndefined();
+    expect(update.tasks).toBeUndefined();
+    expect(buildLegacyTaskMigration(progress, null)['tasks.task-a']).toBeUndefined();
+  });
+
+  it('should not run without task data', async () => {
+    firestoreMock.collection.mockImplementation(() => ({
+      doc: vi.fn(() => ({ get: vi.fn().mockResolvedValue({ exists: false }) })),
+    }));
+    firestoreMock.getAll = vi.fn().mockResolvedValue([{ exists: false }]);
+    const { migrateLegacyTaskProgress } = await import('../src/migrations/legacyTaskProgress');
+    await expect(
+      migrateLegacyTaskProgress.run({ auth: { uid: 'admin-uid', token: { admin: true } } })
+    ).rejects.toMatchObject({ code: 'failed-precondition' });
+  });
+});
+
+describe('Progress changes', () => {
+  const at = (millis) => ({ toMillis: () => millis });
+  const progress = {
+    level: 12,
+    taskCompletions: {
+      'task-a': { complete: true, timestamp: 1000 },
+      // Written by a device whose clock runs behind
+      'task-b': { complete: false, timestamp: 500 },
+    },
+    hideoutParts: { 'part-1': { complete: false, count: 2, timestamp: 2500 } },
+    hideoutModules: { 'module-1': { complete: true } },
+  };
+
+  it('should return entries the change log recorded after the cursor', async () => {
+    const { formatProgressChanges } = await import('../src/progress/progressUtils');
+    const { changes, removed, reset, cursor } = formatProgressChanges(
+      progress,
+      'test-user',
+      2000,
+      {
+        taskCompletions: { 'task-a': at(1000), 'task-b': at(3000), 'task-c': at(3000) },
+        hideoutParts: { 'part-1': at(2500) },
+        hideoutModules: { 'module-1': at(1500) },
+      },
+      4000
+    );
+    expect(changes.playerLevel).toBe(12);
+    expect(changes.tasksProgress).toEqual([{ id: 'task-b', complete: false, timestamp: 500 }]);
+    expect(changes.hideoutPartsProgress).toEqual([
+      { id: 'part-1', complete: false, count: 2, timestamp: 2500 },
+    ]);
+    expect(changes.hideoutModulesProgress).toEqual([]);
+    expect(removed.tasksProgress).toEqual(['task-c']);
+    expect(reset).toBe(false);
+    expect(cursor).toBe(4000);
+  });
+
+  it('should return everything after the progress was replaced', async () => {
+    const { formatProgressChanges } = await import('../src/progress/progressUtils');
+    const { changes, removed, reset } = formatProgressChanges(
+      progress,
+      'test-user',
+      2000,
+      { resetAt: at(3000), taskCompletions: { 'task-c': at(3000) } },
+      4000
+    );
+    expect(reset).toBe(true);
+    expect(changes.tasksProgress.map((task) => task.id)).toEqual(['task-a', 'task-b']);
+    expect(changes.hideoutModulesProgress).toEqual([{ id: 'module-1', complete: true }]);
+    expect(removed.tasksProgress).toEqual([]);
+  });
+
+  it('should return everything for cursors older than the change log retention', async () => {
+    const { formatProgressChanges } = await import('../src/progress/progressUtils');
+    const { CHANGE_LOG_RETENTION_MS } = await import('../src/progress/changeLog');
+    const { changes, reset } = formatProgressChanges(
+      progress,
+      'test-user',
+      2000,
+      { taskCompletions: { 'task-b': at(3000) } },
+      2000 + CHANGE_LOG_RETENTION_MS + 1
+    );
+    expect(reset).toBe(true);
+    expect(changes.tasksProgress.map((task) => task.id)).toEqual(['task-a', 'task-b']);
+  });
+
+  it('should list the change log entries older than the retention', async () => {
+    const { staleChangeLogEntries, CHANGE_LOG_RETENTION_MS } = await import(
+      '../src/progress/changeLog'
+    );
+    const now = CHANGE_LOG_RETENTION_MS + 5000;
+    expect(
+      staleChangeLogEntries(
+        {
+          lastChangedAt: at(now),
+          taskCompletions: { 'task-a': at(1000), 'task-b': at(6000) },
+          hideoutParts: { 'part-1': at(4999) },
+          hideoutModules: { 'module-1': at(5000) },
+        },
+        now
+      )
+    ).toEqual({ taskCompletions: ['task-a'], hideoutParts: ['part-1'] });
+    expect(staleChangeLogEntries(undefined, now)).toEqual({});
+  });
+
+  it('should list the entries a write added, changed or removed', async () => {
+    const { diffProgressEntries } = await import('../src/progress/changeLog');
+    expect(
+      diffProgressEntries(
+        {
+          taskCompletions: { 'task-a': { complete: true }, 'task-b': { complete: true } },
+          hideoutParts: { 'part-1': { count: 1 } },
+        },
+        {
+          taskCompletions: { 'task-a': { complete: true }, 'task-c': { complete: true } },
+          hideoutParts: { 'part-1': { count: 2 } },
+        }
+      )
+    ).toEqual({ taskCompletions: ['task-b', 'task-c'], hideoutParts: ['part-1'] });
+    expect(diffProgressEntries({ level: 1 }, { level: 2 })).toEqual({});
+  });
+});
+
+describe('Progress operations batch', () => {
+  it('should merge valid operations in order', async () => {
+    const { buildProgressOperationsUpdate } = await import('../src/progress/progressUtils');
+    const { update, results, valid } = buildProgressOperationsUpdate(
+      [
+        { type: 'task', id: 'task-b', state: 'completed' },
+        { type: 'objective', id: 'obj-b1', state: 'uncompleted', count: 2 },
+        { type: 'level', value: 30 },
+        { type: 'faction', value: 'BEAR' },
+      ],
+      taskData,
+      null
+    );
+    expect(valid).toBe(true);
+    expect(results.map((result) => result.status)).toEqual([
+      'applied',
+      'applied',
+      'applied',
+      'applied',
+    ]);
+    expect(update['taskCompletions.task-b.complete']).toBe(true);
+    expect(update['taskObjectives.obj-b1.complete']).toBe(false);
+    expect(update['taskObjectives.obj-b1.count']).toBe(2);
+    expect(update.level).toBe(30);
+    expect(update.pmcFaction).toBe('BEAR');
+  });
+
+  it('should reject the whole batch when one operation is invalid', async () => {
+    const { buildProgressOperationsUpdate } = await import('../src/progress/progressUtils');
+    const { results, valid } = buildProgressOperationsUpdate(
+      [
+        { type: 'task', id: 'task-a', state: 'completed' },
+        { type: 'task', id: 'task-b', state: 'done' },
+        { type: 'gameEdition', value: 9 },
+      ],
+      taskData,
+      null
+    );
+    expect(valid).toBe(false);
+    expect(results[0].status).toBe('skipped');
+    expect(results[1]).toMatchObject({ status: 'invalid', id: 'task-b' });
+    expect(results[2].status).toBe('invalid');
+  });
+});
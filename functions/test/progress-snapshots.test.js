@@ -0,0 +1,135 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { Timestamp } from 'firebase-admin/firestore';
+import { firestoreMock } from './setup';
+
+const snapshotProgress = { level: 30, taskCompletions: { 'task-a': { complete: true } } };
+const currentProgress = { level: 1, taskCompletions: {} };
+
+describe('Progress snapshots', () => {
+  let transaction;
+  let progressRef;
+  let staleSnapshots;
+  let batch;
+  let snapshotSet;
+
+  beforeEach(async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    staleSnapshots = [];
+    batch = { delete: vi.fn(), commit: vi.fn().mockResolvedValue(undefined) };
+    snapshotSet = vi.fn().mockResolvedValue(undefined);
+    const snapshotsCollection = {
+      doc: vi.fn((id) => ({
+        id: id ?? 'undo-1',
+        path: `snapshots/${id ?? 'undo-1'}`,
+        set: snapshotSet,
+      })),
+      where: vi.fn(() => ({
+        orderBy: vi.fn(() => ({
+          offset: vi.fn(() => ({
+            get: vi.fn(async () => ({
+              empty: staleSnapshots.length === 0,
+              size: staleSnapshots.length,
+              docs: staleSnapshots.map((id) => ({ ref: { id } })),
+            })),
+          })),
+        })),
+      })),
+    };
+    progressRef = {
+      id: 'user-1',
+      path: 'progress/user-1',
+      firestore: { batch: () => batch },
+      collection: vi.fn(() => snapshotsCollection),
+    };
+    firestoreMock.collection.mockImplementation(() => ({ doc: vi.fn(() => progressRef) }));
+    transaction = {
+      get: vi.fn(async (ref) =>
+        ref === progressRef
+          ? { exists: true, data: () => currentProgress }
+          : ref.id === 'missing'
+            ? { exists: false }
+            : { exists: true, data: () => ({ reason: 'daily', progress: snapshotProgress }) }
+      ),
+      set: vi.fn(),
+    };
+    firestoreMock.runTransaction.mockImplementation((callback) => callback(transaction));
+  });
+
+  it('should snapshot the current progress before restoring', async () => {
+    const { restoreProgressSnapshot } = await import('../src/progress/restoreSnapshot');
+    const result = await restoreProgressSnapshot.run({
+      auth: { uid: 'user-1' },
+      data: { snapshotId: '2026-10-18' },
+    });
+    expect(result).toEqual({ restored: '2026-10-18', undoSnapshotId: 'undo-1' });
+    expect(transaction.set).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'undo-1' }),
+      expect.objectContaining({ reason: 'pre-restore', progress: currentProgress })
+    );
+    expect(transaction.set).toHaveBeenCalledWith(progressRef, snapshotProgress);
+  });
+
+  it('should reject unknown snapshots', async () => {
+    const { restoreProgressSnapshot } = await import('../src/progress/restoreSnapshot');
+    await expect(
+      restoreProgressSnapshot.run({ auth: { uid: 'user-1' }, data: { snapshotId: 'missing' } })
+    ).rejects.toMatchObject({ code: 'not-found' });
+    expect(transaction.set).not.toHaveBeenCalled();
+  });
+
+  it('should delete snapshots beyond the retention limit', async () => {
+    staleSnapshots = ['2026-10-01', '2026-10-02'];
+    const { pruneSnapshots } = await import('../src/progress/snapshots');
+    expect(await pruneSnapshots(progressRef, 'daily', 7)).toBe(2);
+    expect(progressRef.collection('snapshots').where).toHaveBeenCalledWith('reason', '==', 'daily');
+    expect(batch.delete).toHaveBeenCalledTimes(2);
+    expect(batch.commit).toHaveBeenCalled();
+  });
+
+  it('should only prune pre-restore snapshots after a restore', async () => {
+    const { restoreProgressSnapshot } = await import('../src/progress/restoreSnapshot');
+    const { PRE_RESTORE_SNAPSHOT_RETENTION } = await import('../src/progress/snapshots');
+    await restoreProgressSnapshot.run({
+      auth: { uid: 'user-1' },
+      data: { snapshotId: '2026-10-18' },
+    });
+    const snapshots = progressRef.collection('snapshots');
+    expect(snapshots.where).toHaveBeenCalledWith('reason', '==', 'pre-restore');
+    expect(snapshots.where).not.toHaveBeenCalledWith('reason', '==', 'daily');
+    const offset = snapshots.where.mock.results[0].value.orderBy.mock.results[0].value.offset;
+    expect(offset).toHaveBeenCalledWith(PRE_RESTORE_SNAPSHOT_RETENTION);
+  });
+
+  it('should carry on from where a run that was cut off stopped', async () => {
+    const resumeFrom = Timestamp.fromMillis(Date.parse('2026-10-17T12:00:00Z'));
+    const stateRef = {
+      get: vi.fn(async () => ({ data: () => ({ resumeFrom }) })),
+      set: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+    firestoreMock.collection.mockImplementation(() => ({ doc: vi.fn(() => stateRef) }));
+    const changesDoc = { ref: { parent: { parent: progressRef } }, get: vi.fn(() => resumeFrom) };
+    const query = {
+      where: vi.fn(() => query),
+      orderBy: vi.fn(() => query),
+      limit: vi.fn(() => query),
+      startAfter: vi.fn(() => query),
+      get: vi.fn(async () => ({ empty: false, size: 1, docs: [changesDoc] })),
+    };
+    firestoreMock.collectionGroup = vi.fn(() => query);
+    firestoreMock.getAll = vi.fn(async () => [
+      { id: 'user-1', exists: true, ref: progressRef, data: () => currentProgress },
+    ]);
+    const { snapshotProgress: snapshotJob } = await import('../src/progress/snapshots');
+    await snapshotJob.run({});
+    expect(firestoreMock.collectionGroup).toHaveBeenCalledWith('meta');
+    expect(query.where).toHaveBeenCalledWith('lastChangedAt', '>=', resumeFrom);
+    expect(firestoreMock.getAll).toHaveBeenCalledWith(progressRef);
+    expect(snapshotSet).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'daily', progress: currentProgress })
+    );
+    expect(stateRef.set).toHaveBeenCalledWith({ resumeFrom });
+    expect(stateRef.delete).toHaveBeenCalled();
+  });
+});
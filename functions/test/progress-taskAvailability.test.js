@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+
+const taskData = {
+  tasks: [
+    { id: 'intro', minPlayerLevel: 1, factionName: 'Any' },
+    {
+      id: 'followup',
+      minPlayerLevel: 10,
+      factionName: 'Any',
+      taskRequirements: [{ task: { id: 'intro' }, status: ['complete'] }],
+    },
+    { id: 'usec-only', factionName: 'USEC' },
+    {
+      id: 'branch',
+      failedRequirements: [{ task: { id: 'rival' } }],
+      traderLevelRequirements: [{ trader: { id: 'prapor' }, level: 15 }],
+    },
+  ],
+};
+
+describe('Task availability', () => {
+  it('should unlock tasks whose requirements are met', async () => {
+    const { getTaskAvailability } = await import('../src/progress/taskAvailability');
+    const availability = getTaskAvailability(
+      { level: 20, pmcFaction: 'USEC', taskCompletions: { intro: { complete: true } } },
+      taskData
+    );
+    expect(availability.completed).toEqual(['intro']);
+    expect(availability.available).toEqual(['followup', 'usec-only', 'branch']);
+    expect(availability.locked).toEqual([]);
+  });
+
+  it('should list every reason a task is locked', async () => {
+    const { getTaskAvailability } = await import('../src/progress/taskAvailability');
+    const availability = getTaskAvailability(
+      {
+        level: 5,
+        pmcFaction: 'BEAR',
+        taskCompletions: { rival: { complete: true, failed: true } },
+      },
+      taskData
+    );
+    expect(availability.available).toEqual(['intro']);
+    expect(availability.locked).toEqual([
+      {
+        id: 'followup',
+        reasons: [
+          { type: 'playerLevel', required: 10, current: 5 },
+          { type: 'prerequisite', taskId: 'intro' },
+        ],
+      },
+      { id: 'usec-only', reasons: [{ type: 'faction', required: 'USEC', current: 'BEAR' }] },
+      {
+        id: 'branch',
+        reasons: [
+          { type: 'failedRequirement', taskId: 'rival' },
+          { type: 'traderLevel', traderId: 'prapor', required: 15, current: 5 },
+        ],
+      },
+    ]);
+  });
+
+  it('should treat missing progress as a new player', async () => {
+    const { getTaskAvailability } = await import('../src/progress/taskAvailability');
+    const availability = getTaskAvailability(undefined, taskData);
+    expect(availability.locked.find((task) => task.id === 'intro')?.reasons).toEqual([
+      { type: 'playerLevel', required: 1, current: 0 },
+    ]);
+  });
+});
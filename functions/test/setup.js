@@ -64,6 +64,8 @@ vi.mock('firebase-admin', () => {
     })),
     credential: { cert: vi.fn() },
   };
+  // Modules cached by an earlier test file keep that file's admin mock, so share FieldValue
+  admin.firestore.FieldValue = firestoreMock.FieldValue;
   admin.default = admin;
   return { default: admin, admin };
 });
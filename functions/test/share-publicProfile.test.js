@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+
+const progress = {
+  tasksProgress: [{ id: 'task-a', complete: true }],
+  taskObjectivesProgress: [{ id: 'obj-a1', complete: true }],
+  hideoutModulesProgress: [{ id: 'module-1', complete: true }],
+  hideoutPartsProgress: [{ id: 'part-1', complete: false, count: 2 }],
+  displayName: 'Player',
+  userId: 'secret-user-id',
+  playerLevel: 20,
+  gameEdition: 4,
+  pmcFaction: 'USEC',
+};
+const shown = { hideDisplayName: false, hideHideout: false, tasksOnly: false };
+
+describe('Public profile', () => {
+  it('should never include the owner user ID', async () => {
+    const { buildPublicProfile } = await import('../src/share/shareHandler');
+    const profile = buildPublicProfile(progress, 'share-1', shown, 'Player');
+    expect(profile.userId).toBeUndefined();
+    expect(profile).toMatchObject({ shareId: 'share-1', displayName: 'Player', playerLevel: 20 });
+    expect(profile.hideoutPartsProgress).toHaveLength(1);
+  });
+
+  it('should apply the privacy toggles', async () => {
+    const { buildPublicProfile } = await import('../src/share/shareHandler');
+    const hidden = buildPublicProfile(
+      progress,
+      'share-1',
+      {
+        ...shown,
+        hideDisplayName: true,
+        hideHideout: true,
+      },
+      'Player'
+    );
+    expect(hidden.displayName).toBeUndefined();
+    expect(hidden.hideoutModulesProgress).toBeUndefined();
+    expect(hidden.playerLevel).toBe(20);
+    const tasksOnly = buildPublicProfile(
+      progress,
+      'share-1',
+      { ...shown, tasksOnly: true },
+      'Player'
+    );
+    expect(Object.keys(tasksOnly).sort()).toEqual([
+      'displayName',
+      'shareId',
+      'taskObjectivesProgress',
+      'tasksProgress',
+    ]);
+  });
+
+  it('should leave out the display name when the player never set one', async () => {
+    const { buildPublicProfile } = await import('../src/share/shareHandler');
+    // formatProgress fills in the start of the user ID in that case
+    const profile = buildPublicProfile(
+      { ...progress, displayName: 'secret' },
+      'share-1',
+      shown,
+      undefined
+    );
+    expect(profile.displayName).toBeUndefined();
+    expect(JSON.stringify(profile)).not.toContain('secret');
+  });
+
+  it('should default privacy toggles to shown and reject non-boolean values', async () => {
+    const { parseSharePrivacy } = await import('../src/share/create');
+    expect(parseSharePrivacy({ hideHideout: true })).toEqual({ ...shown, hideHideout: true });
+    expect(() => parseSharePrivacy({ tasksOnly: 'yes' })).toThrow();
+  });
+});
@@ -0,0 +1,126 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import { firestoreMock } from './setup';
+
+const hash = (item) => createHash('sha256').update(JSON.stringify(item)).digest('hex');
+const item = (id, price = 100) => ({ id, name: `Item ${id}`, avg24hPrice: price });
+
+describe('Item sync', () => {
+  let manifest;
+  let existingIds;
+  let batches;
+  let manifestSet;
+  let runAdd;
+  let failBatches;
+
+  beforeEach(async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    manifest = null;
+    existingIds = [];
+    batches = [];
+    failBatches = new Set();
+    manifestSet = vi.fn().mockResolvedValue(undefined);
+    runAdd = vi.fn().mockResolvedValue({ id: 'run' });
+    firestoreMock.collection.mockImplementation((name) =>
+      name === 'items'
+        ? {
+            doc: vi.fn((id) => ({ id })),
+            listDocuments: vi.fn(async () => existingIds.map((id) => ({ id }))),
+          }
+        : {
+            doc: vi.fn(() => ({
+              get: vi.fn(async () => ({ exists: manifest !== null, data: () => manifest })),
+              set: manifestSet,
+              collection: vi.fn(() => ({ add: runAdd })),
+            })),
+          }
+    );
+    firestoreMock.batch = vi.fn(() => {
+      const batch = { writes: [] };
+      batch.set = vi.fn((ref, data) => batch.writes.push({ op: 'set', id: ref.id, data }));
+      batch.delete = vi.fn((ref) => batch.writes.push({ op: 'delete', id: ref.id }));
+      batch.commit = vi.fn(async () => {
+        if (failBatches.has(batches.indexOf(batch))) throw new Error('commit failed');
+      });
+      batches.push(batch);
+      return batch;
+    });
+  });
+
+  it('should write only added and changed items and delete removed ones', async () => {
+    manifest = {
+      hashes: { kept: hash(item('kept')), repriced: hash(item('repriced')), gone: 'old' },
+    };
+    const { saveItems } = await import('../src/tarkovdata/items');
+    const summary = await saveItems([item('kept'), item('repriced', 200), item('new')]);
+    expect(summary).toEqual({
+      total: 3,
+      added: 1,
+      changed: 1,
+      removed: 1,
+      unchanged: 1,
+      failed: 0,
+    });
+    expect(batches).toHaveLength(1);
+    expect(batches[0].writes.map(({ op, id }) => `${op}:${id}`)).toEqual([
+      'set:repriced',
+      'set:new',
+      'delete:gone',
+    ]);
+    expect(Object.keys(manifestSet.mock.calls[0][0].hashes)).toEqual(['kept', 'repriced', 'new']);
+    expect(runAdd).toHaveBeenCalledWith(expect.objectContaining(summary));
+  });
+
+  it('should split writes into batches of 500 and retry failed ones next run', async () => {
+    existingIds = ['stale'];
+    failBatches.add(1);
+    const items = Array.from({ length: 1200 }, (_, i) => item(`item-${i}`));
+    const { saveItems } = await import('../src/tarkovdata/items');
+    const summary = await saveItems(items);
+    expect(batches.map((batch) => batch.writes.length)).toEqual([500, 500, 201]);
+    expect(summary).toMatchObject({ added: 700, removed: 1, failed: 500 });
+    const { hashes } = manifestSet.mock.calls[0][0];
+    expect(hashes['item-0']).toBe(hash(items[0]));
+    expect(hashes).not.toHaveProperty('item-500');
+    expect(hashes).not.toHaveProperty('stale');
+  });
+});
+
+describe('Item handler', () => {
+  const mockResponse = () => {
+    const res = {};
+    res.status = vi.fn().mockReturnValue(res);
+    res.send = vi.fn().mockReturnValue(res);
+    res.json = vi.fn().mockReturnValue(res);
+    return res;
+  };
+  const req = (itemId) => ({
+    apiToken: { owner: 'test-user', permissions: ['RI'] },
+    params: { itemId },
+  });
+
+  it('should read the item under its document ID', async () => {
+    const { default: itemHandler } = await import('../src/items/itemHandler');
+    const doc = vi.fn(() => ({
+      get: vi.fn().mockResolvedValue({ exists: true, data: () => item('a/b') }),
+    }));
+    firestoreMock.collection.mockImplementation(() => ({ doc }));
+    const res = mockResponse();
+    await itemHandler.getItem(req('a/b'), res);
+    expect(doc).toHaveBeenCalledWith('a_b');
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('should reject IDs that cannot be document IDs', async () => {
+    const { default: itemHandler } = await import('../src/items/itemHandler');
+    const doc = vi.fn();
+    firestoreMock.collection.mockImplementation(() => ({ doc }));
+    for (const itemId of ['.', '..', '__name__']) {
+      const res = mockResponse();
+      await itemHandler.getItem(req(itemId), res);
+      expect(res.status).toHaveBeenCalledWith(400);
+    }
+    expect(doc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { firestoreMock } from './setup';
+
+vi.mock('graphql-request', () => ({
+  gql: (strings) => strings.join(''),
+  request: vi.fn(),
+}));
+
+describe('Tarkov data sync', () => {
+  it('should normalize tasks into the shape progressUtils reads', async () => {
+    const { normalizeTasks } = await import('../src/tarkovdata/normalize');
+    const [task] = normalizeTasks([
+      {
+        id: 'task-a',
+        name: 'Task A',
+        factionName: 'USEC',
+        minPlayerLevel: 10,
+        taskRequirements: [{ task: { id: 'task-pre', name: 'Pre' }, status: ['complete'] }],
+        traderRequirements: [
+          { trader: { id: 'prapor', name: 'Prapor' }, requirementType: 'level', value: 2 },
+          { trader: { id: 'prapor', name: 'Prapor' }, requirementType: 'reputation', value: 1 },
+        ],
+        objectives: [
+          {
+            id: 'obj-1',
+            type: 'giveItem',
+            maps: [{ id: 'customs' }],
+            item: { id: 'item-1', name: 'Item', shortName: 'It', iconLink: 'x' },
+            count: 3,
+            foundInRaid: true,
+          },
+          { id: 'obj-2', type: 'visit', maps: [] },
+        ],
+        failConditions: [
+          { id: 'fail-1', type: 'taskStatus', task: { id: 'task-b' }, status: ['complete'] },
+          { id: 'fail-2', type: 'taskStatus', task: { id: 'task-c' }, status: ['failed'] },
+          { id: 'fail-3', type: 'shoot' },
+        ],
+      },
+      null,
+    ]);
+    expect(task).toMatchObject({
+      id: 'task-a',
+      factionName: 'USEC',
+      minPlayerLevel: 10,
+      taskRequirements: [{ task: { id: 'task-pre' }, status: ['complete'] }],
+      failedRequirements: [{ task: { id: 'task-c' }, status: ['failed'] }],
+      traderLevelRequirements: [{ trader: { id: 'prapor' }, level: 2 }],
+      alternatives: ['task-b'],
+    });
+    expect(task.objectives).toEqual([
+      {
+        id: 'obj-1',
+        type: 'giveItem',
+        description: undefined,
+        optional: false,
+        maps: ['customs'],
+        item: { id: 'item-1', name: 'Item', shortName: 'It' },
+        count: 3,
+        foundInRaid: true,
+      },
+      { id: 'obj-2', type: 'visit', description: undefined, optional: false, maps: [] },
+    ]);
+  });
+
+  it('should normalize hideout item requirements', async () => {
+    const { normalizeHideoutStations } = await import('../src/tarkovdata/normalize');
+    const [station] = normalizeHideoutStations([
+      {
+        id: 'stash',
+        name: 'Stash',
+        levels: [
+          {
+            id: 'stash-2',
+            level: 2,
+            itemRequirements: [
+              {
+                id: 'req-1',
+                item: { id: 'roubles' },
+                count: 500000,
+                attributes: [],
+              },
+              {
+                id: 'req-2',
+                item: { id: 'bolts' },
+                count: 2,
+                attributes: [{ type: 'foundInRaid', name: 'found_in_raid', value: 'true' }],
+              },
+            ],
+            stationLevelRequirements: [{ station: { id: 'stash' }, level: 1 }],
+            traderRequirements: [{ trader: { id: 'prapor' }, requirementType: 'level', value: 2 }],
+          },
+        ],
+      },
+    ]);
+    expect(station.levels[0].itemRequirements.map((req) => req.foundInRaid)).toEqual([false, true]);
+    expect(station.levels[0].stationLevelRequirements).toEqual([
+      { station: { id: 'stash' }, level: 1 },
+    ]);
+    expect(station.levels[0].traderRequirements).toEqual([{ trader: { id: 'prapor' }, level: 2 }]);
+  });
+
+  describe('storing', () => {
+    let set;
+    beforeEach(async () => {
+      const { default: admin } = await import('firebase-admin');
+      admin.firestore.FieldValue = firestoreMock.FieldValue;
+      set = vi.fn().mockResolvedValue(undefined);
+      firestoreMock.collection.mockImplementation(() => ({ doc: vi.fn(() => ({ set })) }));
+      process.env.TARKOV_API_URL = 'http://localhost:4000/graphql';
+    });
+    afterEach(() => {
+      delete process.env.TARKOV_API_URL;
+    });
+
+    it('should store tasks from the configured endpoint and bump the version', async () => {
+      const { request } = await import('graphql-request');
+      request.mockResolvedValue({ tasks: [{ id: 'task-a' }] });
+      const { syncTaskData } = await import('../src/tarkovdata/sync');
+      expect(await syncTaskData()).toBe(1);
+      expect(request).toHaveBeenCalledWith('http://localhost:4000/graphql', expect.any(String));
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tasks: [expect.objectContaining({ id: 'task-a', factionName: 'Any' })],
+          version: 'increment(1)',
+        }),
+        { merge: true }
+      );
+      expect(set.mock.calls[0][0].tasks[0]).not.toHaveProperty('name');
+    });
+
+    it('should keep the stored data when the API returns nothing', async () => {
+      const { request } = await import('graphql-request');
+      request.mockResolvedValue({ hideoutStations: [] });
+      const { syncHideoutData } = await import('../src/tarkovdata/sync');
+      expect(await syncHideoutData()).toBeUndefined();
+      expect(set).not.toHaveBeenCalled();
+    });
+  });
+});
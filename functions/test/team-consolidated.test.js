@@ -177,7 +177,7 @@ describe('Team Management', () => {
       expect(firestoreMock.update).toHaveBeenCalled();
     });
 
-    it('should delete the team when the owner leaves', async () => {
+    it('should hand the team to the longest-standing member when the owner leaves', async () => {
       // Skip test if import failed
       if (!leaveTeamLogic) {
         return expect(true).toBe(true);
@@ -214,7 +214,7 @@ describe('Team Management', () => {
       expect(firestoreMock.collection).toHaveBeenCalledWith('system');
       expect(firestoreMock.collection).toHaveBeenCalledWith('team');
       expect(firestoreMock.update).toHaveBeenCalled();
-      expect(firestoreMock.delete).toHaveBeenCalled();
+      expect(firestoreMock.delete).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,79 @@
+import { vi, describe, it, expect } from 'vitest';
+import { firestoreMock } from './setup';
+
+const NOW = 1_700_000_000_000;
+const expiresAt = (millis) => ({ toMillis: () => millis });
+
+describe('Team invites', () => {
+  it('should default to a day-long invite without a use limit', async () => {
+    const { parseInviteOptions } = await import('../src/team/invites');
+    expect(parseInviteOptions(undefined)).toEqual({ expiresInHours: 24, maxUses: null });
+    expect(parseInviteOptions({ expiresInHours: null, maxUses: 1 })).toEqual({
+      expiresInHours: null,
+      maxUses: 1,
+    });
+  });
+
+  it('should reject invalid invite options', async () => {
+    const { parseInviteOptions } = await import('../src/team/invites');
+    expect(() => parseInviteOptions({ expiresInHours: 0 })).toThrow(/expiresInHours/);
+    expect(() => parseInviteOptions({ expiresInHours: 1.5 })).toThrow(/expiresInHours/);
+    expect(() => parseInviteOptions({ maxUses: 'once' })).toThrow(/maxUses/);
+    expect(() => parseInviteOptions({ maxUses: 1000 })).toThrow(/maxUses/);
+  });
+
+  it('should only accept invites that are active and have uses left', async () => {
+    const { assertInviteUsable } = await import('../src/team/invites');
+    const invite = { expiresAt: expiresAt(NOW + 1000), maxUses: 1, uses: 0, revoked: false };
+    expect(() => assertInviteUsable(invite, NOW)).not.toThrow();
+    expect(() =>
+      assertInviteUsable({ ...invite, expiresAt: null, maxUses: null }, NOW)
+    ).not.toThrow();
+    expect(() => assertInviteUsable(undefined, NOW)).toThrow(/doesn't exist/);
+    expect(() => assertInviteUsable({ ...invite, revoked: true }, NOW)).toThrow(/revoked/);
+    expect(() => assertInviteUsable({ ...invite, expiresAt: expiresAt(NOW) }, NOW)).toThrow(
+      /expired/
+    );
+    expect(() => assertInviteUsable({ ...invite, uses: 1 }, NOW)).toThrow(/used up/);
+  });
+
+  it('should let only team managers create invites', async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    const inviteRef = { id: 'invite' };
+    const teamRef = { collection: vi.fn(() => ({ doc: vi.fn(() => inviteRef) })) };
+    firestoreMock.collection.mockImplementation((name) => ({
+      doc: vi.fn((id) => (name === 'team' ? teamRef : { id })),
+    }));
+    const transaction = {
+      get: vi.fn((ref) =>
+        Promise.resolve({
+          exists: true,
+          data: () =>
+            ref === teamRef
+              ? { owner: 'owner-uid', members: ['owner-uid', 'member-uid'] }
+              : { team: 'team-1' },
+        })
+      ),
+      set: vi.fn(),
+    };
+    firestoreMock.runTransaction.mockImplementation((callback) => callback(transaction));
+    const { createTeamInvite } = await import('../src/team/createInvite');
+
+    await expect(
+      createTeamInvite.run({ auth: { uid: 'member-uid' }, data: {} })
+    ).rejects.toMatchObject({ code: 'permission-denied' });
+    expect(transaction.set).not.toHaveBeenCalled();
+
+    const result = await createTeamInvite.run({
+      auth: { uid: 'owner-uid' },
+      data: { expiresInHours: null, maxUses: 1 },
+    });
+    expect(result).toMatchObject({ team: 'team-1', expiresAt: null });
+    expect(result.code).toEqual(expect.any(String));
+    expect(transaction.set).toHaveBeenCalledWith(
+      inviteRef,
+      expect.objectContaining({ createdBy: 'owner-uid', maxUses: 1, uses: 0, revoked: false })
+    );
+  });
+});
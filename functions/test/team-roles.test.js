@@ -0,0 +1,99 @@
+import { vi, describe, it, expect } from 'vitest';
+import { firestoreMock } from './setup';
+
+const team = {
+  owner: 'owner-uid',
+  admins: ['admin-uid'],
+  members: ['owner-uid', 'admin-uid', 'member-uid'],
+};
+
+// Mocks the caller's system document and the team document read in the transaction
+const mockTeamTransaction = (teamData) => {
+  const teamRef = { id: 'team-1' };
+  firestoreMock.collection.mockImplementation((name) => ({
+    doc: vi.fn((id) => (name === 'team' ? teamRef : { id })),
+  }));
+  const transaction = {
+    get: vi.fn((ref) =>
+      Promise.resolve(
+        ref === teamRef
+          ? { exists: true, data: () => teamData }
+          : { exists: true, data: () => ({ team: 'team-1' }) }
+      )
+    ),
+    update: vi.fn(),
+  };
+  firestoreMock.runTransaction.mockImplementation((callback) => callback(transaction));
+  return { teamRef, transaction };
+};
+
+describe('Team roles', () => {
+  it('should resolve the role of each user', async () => {
+    const { getTeamRole, canManageTeam } = await import('../src/team/roles');
+    expect(getTeamRole(team, 'owner-uid')).toBe('owner');
+    expect(getTeamRole(team, 'admin-uid')).toBe('admin');
+    expect(getTeamRole(team, 'member-uid')).toBe('member');
+    expect(getTeamRole(team, 'stranger-uid')).toBeNull();
+    expect(getTeamRole(undefined, 'owner-uid')).toBeNull();
+    expect(canManageTeam('owner')).toBe(true);
+    expect(canManageTeam('admin')).toBe(true);
+    expect(canManageTeam('member')).toBe(false);
+    expect(canManageTeam(null)).toBe(false);
+  });
+
+  it('should let the owner promote a member to admin', async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    firestoreMock.FieldValue.arrayUnion.mockImplementation((item) => `arrayUnion(${item})`);
+    const { teamRef, transaction } = mockTeamTransaction(team);
+    const { promoteTeamMember } = await import('../src/team/memberRole');
+    const result = await promoteTeamMember.run({
+      auth: { uid: 'owner-uid' },
+      data: { member: 'member-uid' },
+    });
+    expect(result).toEqual({ member: 'member-uid', role: 'admin' });
+    expect(transaction.update).toHaveBeenCalledWith(teamRef, {
+      admins: 'arrayUnion(member-uid)',
+    });
+  });
+
+  it('should let the owner demote an admin', async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    firestoreMock.FieldValue.arrayRemove.mockImplementation((item) => `arrayRemove(${item})`);
+    const { teamRef, transaction } = mockTeamTransaction(team);
+    const { demoteTeamMember } = await import('../src/team/memberRole');
+    const result = await demoteTeamMember.run({
+      auth: { uid: 'owner-uid' },
+      data: { member: 'admin-uid' },
+    });
+    expect(result).toEqual({ member: 'admin-uid', role: 'member' });
+    expect(transaction.update).toHaveBeenCalledWith(teamRef, {
+      admins: 'arrayRemove(admin-uid)',
+    });
+  });
+
+  it('should not let admins change roles', async () => {
+    const { transaction } = mockTeamTransaction(team);
+    const { promoteTeamMember } = await import('../src/team/memberRole');
+    await expect(
+      promoteTeamMember.run({ auth: { uid: 'admin-uid' }, data: { member: 'member-uid' } })
+    ).rejects.toMatchObject({ code: 'permission-denied' });
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject users outside the team', async () => {
+    mockTeamTransaction(team);
+    const { promoteTeamMember } = await import('../src/team/memberRole');
+    await expect(
+      promoteTeamMember.run({ auth: { uid: 'owner-uid' }, data: { member: 'stranger-uid' } })
+    ).rejects.toMatchObject({ code: 'not-found' });
+  });
+
+  it('should reject a missing member', async () => {
+    const { demoteTeamMember } = await import('../src/team/memberRole');
+    await expect(
+      demoteTeamMember.run({ auth: { uid: 'owner-uid' }, data: {} })
+    ).rejects.toMatchObject({ code: 'invalid-argument' });
+  });
+});
@@ -0,0 +1,96 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { firestoreMock } from './setup';
+
+const team = {
+  owner: 'owner-uid',
+  admins: ['admin-uid'],
+  members: ['owner-uid', 'veteran-uid', 'admin-uid', 'rookie-uid'],
+};
+
+describe('Team ownership transfer', () => {
+  beforeEach(async () => {
+    const { default: admin } = await import('firebase-admin');
+    admin.firestore.FieldValue = firestoreMock.FieldValue;
+    firestoreMock.FieldValue.serverTimestamp.mockReturnValue('serverTimestamp');
+  });
+
+  it('should pick the member who joined first', async () => {
+    const { longestStandingMember } = await import('../src/team/transferOwnership');
+    expect(longestStandingMember(team)).toBe('veteran-uid');
+    expect(longestStandingMember({ owner: 'owner-uid', members: ['owner-uid'] })).toBeNull();
+  });
+
+  it('should keep a previous owner who stays as an admin', async () => {
+    const { ownershipTransferUpdate } = await import('../src/team/transferOwnership');
+    expect(ownershipTransferUpdate(team, 'admin-uid', 'transferred', 'Nikita')).toEqual({
+      owner: 'admin-uid',
+      admins: ['owner-uid'],
+      members: team.members,
+      ownershipChange: {
+        from: 'owner-uid',
+        fromName: 'Nikita',
+        to: 'admin-uid',
+        reason: 'transferred',
+        changedAt: 'serverTimestamp',
+      },
+    });
+  });
+
+  it('should remove a previous owner who left', async () => {
+    const { ownershipTransferUpdate } = await import('../src/team/transferOwnership');
+    const update = ownershipTransferUpdate(team, 'veteran-uid', 'owner-left', 'Nikita');
+    expect(update.owner).toBe('veteran-uid');
+    expect(update.admins).toEqual(['admin-uid']);
+    expect(update.members).toEqual(['veteran-uid', 'admin-uid', 'rookie-uid']);
+    expect(update.ownershipChange).toMatchObject({
+      from: 'owner-uid',
+      fromName: 'Nikita',
+      reason: 'owner-left',
+    });
+  });
+
+  it('should let only the owner transfer the team to a member', async () => {
+    const teamRef = { id: 'team-1' };
+    firestoreMock.collection.mockImplementation((name) => ({
+      doc: vi.fn((id) => (name === 'team' ? teamRef : { id, path: `${name}/${id}` })),
+    }));
+    const transaction = {
+      get: vi.fn((ref) =>
+        Promise.resolve({
+          exists: true,
+          data: () =>
+            ref === teamRef
+              ? team
+              : ref.path.startsWith('progress/')
+                ? { displayName: 'Nikita' }
+                : { team: 'team-1' },
+        })
+      ),
+      update: vi.fn(),
+    };
+    firestoreMock.runTransaction.mockImplementation((callback) => callback(transaction));
+    const { transferTeamOwnership } = await import('../src/team/transferOwnership');
+
+    await expect(
+      transferTeamOwnership.run({ auth: { uid: 'admin-uid' }, data: { newOwner: 'rookie-uid' } })
+    ).rejects.toMatchObject({ code: 'permission-denied' });
+    await expect(
+      transferTeamOwnership.run({ auth: { uid: 'owner-uid' }, data: { newOwner: 'stranger-uid' } })
+    ).rejects.toMatchObject({ code: 'not-found' });
+    expect(transaction.update).not.toHaveBeenCalled();
+
+    const result = await transferTeamOwnership.run({
+      auth: { uid: 'owner-uid' },
+      data: { newOwner: 'rookie-uid' },
+    });
+    expect(result).toEqual({ owner: 'rookie-uid' });
+    expect(transaction.update).toHaveBeenCalledWith(
+      teamRef,
+      expect.objectContaining({
+        owner: 'rookie-uid',
+        admins: ['admin-uid', 'owner-uid'],
+        ownershipChange: expect.objectContaining({ from: 'owner-uid', fromName: 'Nikita' }),
+      })
+    );
+  });
+});
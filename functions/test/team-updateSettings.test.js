@@ -0,0 +1,85 @@
+import { vi, describe, it, expect } from 'vitest';
+import { firestoreMock } from './setup';
+
+const team = {
+  owner: 'owner-uid',
+  admins: ['admin-uid'],
+  members: ['owner-uid', 'admin-uid', 'member-uid'],
+  password: 'old-password',
+  maximumMembers: 10,
+};
+
+// Mocks the caller's system document and the team document read in the transaction
+const mockTeamTransaction = () => {
+  const teamRef = { id: 'team-1' };
+  firestoreMock.collection.mockImplementation((name) => ({
+    doc: vi.fn((id) => (name === 'team' ? teamRef : { id })),
+  }));
+  const transaction = {
+    get: vi.fn((ref) =>
+      Promise.resolve({
+        exists: true,
+        data: () => (ref === teamRef ? team : { team: 'team-1' }),
+      })
+    ),
+    update: vi.fn(),
+  };
+  firestoreMock.runTransaction.mockImplementation((callback) => callback(transaction));
+  return { teamRef, transaction };
+};
+
+describe('Team settings', () => {
+  it('should only read the settings that were given', async () => {
+    const { parseTeamSettings } = await import('../src/team/updateSettings');
+    expect(parseTeamSettings({ name: '  Scav Hunters ', maximumMembers: 5 })).toEqual({
+      regeneratePassword: false,
+      name: 'Scav Hunters',
+      maximumMembers: 5,
+    });
+    expect(() => parseTeamSettings({ maximumMembers: 0 })).toThrow(/maximumMembers/);
+    expect(() => parseTeamSettings({ maximumMembers: 51 })).toThrow(/maximumMembers/);
+    expect(() => parseTeamSettings({ name: 'x'.repeat(51) })).toThrow(/name/);
+    expect(() => parseTeamSettings({ description: 42 })).toThrow(/description/);
+    expect(() => parseTeamSettings({ regeneratePassword: 'yes' })).toThrow(/regeneratePassword/);
+  });
+
+  it('should regenerate the password and update the settings', async () => {
+    const { teamRef, transaction } = mockTeamTransaction();
+    const { updateTeamSettings } = await import('../src/team/updateSettings');
+    const result = await updateTeamSettings.run({
+      auth: { uid: 'admin-uid' },
+      data: { regeneratePassword: true, description: 'Labs on Fridays', maximumMembers: 3 },
+    });
+    expect(result.password).toEqual(expect.any(String));
+    expect(result.password).not.toBe('old-password');
+    expect(transaction.update).toHaveBeenCalledWith(teamRef, {
+      password: result.password,
+      description: 'Labs on Fridays',
+      maximumMembers: 3,
+    });
+  });
+
+  it('should not lower the limit below the current member count', async () => {
+    const { transaction } = mockTeamTransaction();
+    const { updateTeamSettings } = await import('../src/team/updateSettings');
+    await expect(
+      updateTeamSettings.run({ auth: { uid: 'owner-uid' }, data: { maximumMembers: 2 } })
+    ).rejects.toMatchObject({ code: 'failed-precondition' });
+    expect(transaction.update).not.toHaveBeenCalled();
+  });
+
+  it('should not let plain members change settings', async () => {
+    mockTeamTransaction();
+    const { updateTeamSettings } = await import('../src/team/updateSettings');
+    await expect(
+      updateTeamSettings.run({ auth: { uid: 'member-uid' }, data: { name: 'Ours now' } })
+    ).rejects.toMatchObject({ code: 'permission-denied' });
+  });
+
+  it('should reject a request without changes', async () => {
+    const { updateTeamSettings } = await import('../src/team/updateSettings');
+    await expect(
+      updateTeamSettings.run({ auth: { uid: 'owner-uid' }, data: {} })
+    ).rejects.toMatchObject({ code: 'invalid-argument' });
+  });
+});
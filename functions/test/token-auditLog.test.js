@@ -0,0 +1,85 @@
+import { vi, describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import admin from 'firebase-admin';
+import { firestoreMock } from './setup';
+
+admin.firestore.FieldValue = { serverTimestamp: vi.fn().mockReturnValue('serverTimestamp') };
+
+const mockRequest = () => ({
+  method: 'POST',
+  baseUrl: '',
+  path: '/api/progress/task/secret-task-id',
+  route: { path: '/api/progress/task/:taskId' },
+  ip: '203.0.113.7',
+  apiToken: { owner: 'test-user', tokenId: 'token-hash' },
+  get: vi.fn((name) => (name === 'user-agent' ? 'test-agent/1.0' : undefined)),
+});
+
+const mockAuditCollection = (add) => {
+  const auditCollection = vi.fn(() => ({ add }));
+  firestoreMock.collection.mockImplementation(() => ({
+    doc: vi.fn(() => ({ collection: auditCollection })),
+  }));
+  return auditCollection;
+};
+const mockResponse = (statusCode = 200) => Object.assign(new EventEmitter(), { statusCode });
+
+describe('auditTokenUsage', () => {
+  it('should record the route pattern and hashed client details once the response is sent', async () => {
+    const { auditTokenUsage } = await import('../src/token/auditLog');
+    const add = vi.fn().mockResolvedValue(undefined);
+    const auditCollection = mockAuditCollection(add);
+    const res = mockResponse();
+    const next = vi.fn();
+    auditTokenUsage(mockRequest(), res, next);
+    expect(next).toHaveBeenCalled();
+    expect(add).not.toHaveBeenCalled();
+    res.emit('finish');
+    expect(auditCollection).toHaveBeenCalledWith('audit');
+    const entry = add.mock.calls[0][0];
+    expect(entry).toMatchObject({
+      route: '/api/progress/task/:taskId',
+      method: 'POST',
+      status: 200,
+    });
+    expect(entry.expiresAt.toMillis()).toBeGreaterThan(Date.now());
+    expect(entry.ipHash).toMatch(/^[0-9a-f]{12}$/);
+    expect(JSON.stringify(entry)).not.toContain('203.0.113.7');
+    expect(JSON.stringify(entry)).not.toContain('test-agent');
+  });
+
+  it('should only log entries that cannot be written', async () => {
+    const { auditTokenUsage } = await import('../src/token/auditLog');
+    const add = vi.fn().mockRejectedValue(new Error('unavailable'));
+    mockAuditCollection(add);
+    const res = mockResponse();
+    auditTokenUsage(mockRequest(), res, vi.fn());
+    expect(() => res.emit('finish')).not.toThrow();
+    await vi.waitFor(() => expect(add).toHaveBeenCalled());
+  });
+
+  it('should log calls rejected before routing without their concrete path', async () => {
+    const { auditTokenUsage } = await import('../src/token/auditLog');
+    const add = vi.fn().mockResolvedValue(undefined);
+    mockAuditCollection(add);
+    const res = mockResponse(429);
+    const req = {
+      ...mockRequest(),
+      route: undefined,
+      path: '/api/v2/progress/task/secret-task-id',
+    };
+    auditTokenUsage(req, res, vi.fn());
+    res.emit('finish');
+    expect(add.mock.calls[0][0]).toMatchObject({ route: '/api/v2/*', status: 429 });
+  });
+
+  it('should not record calls without a token', async () => {
+    const { auditTokenUsage } = await import('../src/token/auditLog');
+    const add = vi.fn();
+    mockAuditCollection(add);
+    const res = mockResponse();
+    auditTokenUsage({ ...mockRequest(), apiToken: undefined }, res, vi.fn());
+    res.emit('finish');
+    expect(add).not.toHaveBeenCalled();
+  });
+});
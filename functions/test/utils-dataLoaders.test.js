@@ -0,0 +1,52 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { firestoreMock } from './setup';
+
+// Outside the functions runtime the cache TTL param reads as 0, so every call past the first
+// checks the document version
+const snapshot = (data) => ({ exists: true, data: () => data });
+
+describe('Tarkov data loaders', () => {
+  let docGet;
+  beforeEach(() => {
+    // Other test files load the module against their own firebase-admin mocks
+    vi.resetModules();
+    docGet = vi.fn().mockResolvedValue(snapshot({ version: 1, tasks: [{ id: 'a' }] }));
+    firestoreMock.collection.mockImplementation(() => ({ doc: vi.fn(() => ({ get: docGet })) }));
+    firestoreMock.getAll = vi.fn().mockResolvedValue([snapshot({ version: 1 })]);
+  });
+
+  it('should keep the cached data while the version is unchanged', async () => {
+    const { getTaskData } = await import('../src/utils/dataLoaders');
+    expect(await getTaskData()).toEqual({ version: 1, tasks: [{ id: 'a' }] });
+    expect(await getTaskData({ revalidate: true })).toEqual({ version: 1, tasks: [{ id: 'a' }] });
+    expect(docGet).toHaveBeenCalledTimes(1);
+    expect(firestoreMock.getAll).toHaveBeenCalledWith(expect.anything(), {
+      fieldMask: ['version', 'updatedAt'],
+    });
+  });
+
+  it('should reload the document when its version changes', async () => {
+    const { getTaskData } = await import('../src/utils/dataLoaders');
+    await getTaskData();
+    firestoreMock.getAll.mockResolvedValue([snapshot({ version: 2 })]);
+    docGet.mockResolvedValue(snapshot({ version: 2, tasks: [{ id: 'b' }] }));
+    expect(await getTaskData({ revalidate: true })).toEqual({ version: 2, tasks: [{ id: 'b' }] });
+    expect(docGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve the cached data when Firestore fails', async () => {
+    const { getTaskData } = await import('../src/utils/dataLoaders');
+    await getTaskData();
+    firestoreMock.getAll.mockRejectedValue(new Error('unavailable'));
+    expect(await getTaskData({ revalidate: true })).toEqual({ version: 1, tasks: [{ id: 'a' }] });
+  });
+
+  it('should reload unversioned documents on every check', async () => {
+    const { getHideoutData } = await import('../src/utils/dataLoaders');
+    docGet.mockResolvedValue(snapshot({ hideoutStations: [] }));
+    await getHideoutData();
+    await getHideoutData({ revalidate: true });
+    expect(firestoreMock.getAll).not.toHaveBeenCalled();
+    expect(docGet).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,72 @@
+import { vi, describe, it, expect } from 'vitest';
+import { HttpsError } from 'firebase-functions/v2/https';
+
+const mockResponse = () => {
+  const res = { statusCode: 200, json: vi.fn() };
+  res.status = vi.fn((status) => {
+    res.statusCode = status;
+    return res;
+  });
+  res.send = (body) => res.json(body);
+  return res;
+};
+
+describe('API v3 error envelope', () => {
+  it('should envelope error bodies sent by existing handlers', async () => {
+    const { errorEnvelope } = await import('../src/utils/httpErrors');
+    const res = mockResponse();
+    const sent = res.json;
+    errorEnvelope({}, res, vi.fn());
+    res.status(401).send({ error: 'Token has expired.', code: 'token-expired' });
+    expect(sent).toHaveBeenCalledWith({
+      code: 'unauthenticated',
+      message: 'Token has expired.',
+      details: { reason: 'token-expired' },
+    });
+    res.status(400).send({ error: 'Request validation failed.', violations: [] });
+    expect(sent).toHaveBeenLastCalledWith({
+      code: 'invalid-argument',
+      message: 'Request validation failed.',
+      details: { violations: [] },
+    });
+  });
+
+  it('should report missing scopes as permission denied once the token is accepted', async () => {
+    const { errorEnvelope } = await import('../src/utils/httpErrors');
+    const res = mockResponse();
+    const sent = res.json;
+    errorEnvelope({ apiToken: { owner: 'test-user', permissions: ['GP'] } }, res, vi.fn());
+    res.status(401).send({ error: 'Unauthorized or insufficient permissions.' });
+    expect(res.statusCode).toBe(403);
+    expect(sent).toHaveBeenCalledWith({
+      code: 'permission-denied',
+      message: 'Unauthorized or insufficient permissions.',
+    });
+  });
+
+  it('should leave successful responses unchanged', async () => {
+    const { errorEnvelope } = await import('../src/utils/httpErrors');
+    const res = mockResponse();
+    const sent = res.json;
+    errorEnvelope({}, res, vi.fn());
+    res.status(200).send({ message: 'Level updated successfully.' });
+    expect(sent).toHaveBeenCalledWith({ message: 'Level updated successfully.' });
+  });
+
+  it('should map thrown errors through the HttpsError status mapping', async () => {
+    const { envelopeErrorHandler } = await import('../src/utils/httpErrors');
+    const res = mockResponse();
+    envelopeErrorHandler(new HttpsError('not-found', 'Team not found.'), {}, res, vi.fn());
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({ code: 'not-found', message: 'Team not found.' });
+    const parseError = Object.assign(new Error('Unexpected token'), { status: 400 });
+    envelopeErrorHandler(parseError, {}, res, vi.fn());
+    expect(res.status).toHaveBeenLastCalledWith(400);
+    envelopeErrorHandler(new Error('boom'), { originalUrl: '/api/v3/token' }, res, vi.fn());
+    expect(res.status).toHaveBeenLastCalledWith(500);
+    expect(res.json).toHaveBeenLastCalledWith({
+      code: 'internal',
+      message: 'An internal server error occurred.',
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+
+describe('Webhook progress events', () => {
+  it('should report task, objective, level and hideout transitions', async () => {
+    const { buildProgressEvents } = await import('../src/webhook/events');
+    const events = buildProgressEvents(
+      {
+        level: 10,
+        taskCompletions: { 'task-a': { complete: false }, 'task-c': { complete: true } },
+        taskObjectives: { 'obj-a1': { count: 1 } },
+        hideoutModules: { 'module-1': { complete: false } },
+      },
+      {
+        level: 11,
+        taskCompletions: {
+          'task-a': { complete: true },
+          'task-b': { complete: true, failed: true },
+          'task-c': { complete: true },
+        },
+        taskObjectives: { 'obj-a1': { count: 3 } },
+        hideoutModules: { 'module-1': { complete: true } },
+      }
+    );
+    expect(events).toEqual([
+      { type: 'task.completed', id: 'task-a' },
+      { type: 'task.failed', id: 'task-b' },
+      { type: 'objective.count', id: 'obj-a1', value: 3, previous: 1 },
+      { type: 'level.changed', value: 11, previous: 10 },
+      { type: 'hideout.module.built', id: 'module-1' },
+    ]);
+  });
+
+  it('should report nothing for deleted documents or unchanged progress', async () => {
+    const { buildProgressEvents } = await import('../src/webhook/events');
+    const progress = { level: 5, taskCompletions: { 'task-a': { complete: true } } };
+    expect(buildProgressEvents(progress, undefined)).toEqual([]);
+    expect(buildProgressEvents(progress, { ...progress, displayName: 'renamed' })).toEqual([]);
+  });
+});
+
+describe('Webhook signatures', () => {
+  it('should sign the timestamp and body with the webhook secret', async () => {
+    const { signPayload } = await import('../src/webhook/deliver');
+    const body = JSON.stringify({ id: 'delivery', events: [] });
+    const expected = createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+    expect(signPayload('whsec_test', 1700000000, body)).toBe(expected);
+    expect(signPayload('whsec_other', 1700000000, body)).not.toBe(expected);
+  });
+});
+
+describe('Webhook URL validation', () => {
+  it('should only accept https URLs on public hosts', async () => {
+    const { validateWebhookUrl } = await import('../src/webhook/create');
+    expect(validateWebhookUrl('https://example.com/hook')).toBe('https://example.com/hook');
+    expect(() => validateWebhookUrl('http://example.com/hook')).toThrow();
+    expect(() => validateWebhookUrl('https://localhost/hook')).toThrow();
+    expect(() => validateWebhookUrl('https://192.168.1.10/hook')).toThrow();
+    expect(() => validateWebhookUrl('not a url')).toThrow();
+  });
+});
+
+describe('Webhook delivery hosts', () => {
+  it('should only treat public addresses as deliverable', async () => {
+    const { isPublicAddress } = await import('../src/webhook/deliver');
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:2800:220:1::1')).toBe(true);
+    ['10.1.2.3', '127.0.0.1', '169.254.169.254', '100.64.0.1', '::1', 'fd00::1', 'fe80::1'].forEach(
+      (address) => expect(isPublicAddress(address)).toBe(false)
+    );
+    expect(isPublicAddress('::ffff:10.0.0.1')).toBe(false);
+  });
+
+  it('should reject hosts that resolve to a non-public address before delivering', async () => {
+    const { checkDeliveryHost } = await import('../src/webhook/deliver');
+    expect(await checkDeliveryHost('https://93.184.216.34/hook')).toBeNull();
+    expect(await checkDeliveryHost('https://169.254.169.254/hook')).toMatch(/non-public/);
+    expect(await checkDeliveryHost('https://[::1]/hook')).toMatch(/non-public/);
+    // Resolved through the hosts file, so no network is needed
+    expect(await checkDeliveryHost('https://localhost/hook')).toMatch(/non-public/);
+  });
+});